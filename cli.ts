@@ -0,0 +1,215 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Command line tools: send messages, dump and proxy OSC traffic.
+ *
+ * ```sh
+ * deno run --allow-net --unstable-net jsr:@deno-plc/adapter-osc/cli send udp://127.0.0.1:9000 /foo ,ifs 1 2.5 hi
+ * ```
+ *
+ * @module
+ */
+
+import {
+    connectOSCEndpoint,
+    listenOSCEndpoint,
+    type OSCEndpointConnection,
+    type OSCEndpointPeer,
+    parseOSCEndpoint,
+} from "./src/endpoint.ts";
+import { encodeOSC_UTF8, OSCProtocolError } from "./src/oscProtocol.ts";
+import { formatOSC, parseOSCText } from "./src/oscText.ts";
+
+const USAGE = `Usage: cli <command> [...]
+
+Commands:
+  send <url> <addr> [<types> [<values>...]]
+      encode a message and send it, e.g.
+      send udp://127.0.0.1:9000 /foo/bar ,ifs 1 2.5 hi
+  dump <url>
+      listen and print incoming packets, e.g.
+      dump udp://0.0.0.0:9000
+  proxy <listen url> <target url>
+      forward packets to the target (and replies back) while printing them, e.g.
+      proxy tcp://0.0.0.0:9000 tcp://192.168.1.10:3032
+
+<url>: udp://host:port (one packet per datagram) or tcp://host:port (SLIP framing)
+`;
+
+/**
+ * Converts command line arguments to the text format of {@link parseOSCText}. Every value is a separate command line
+ * argument, strings do not need to be quoted.
+ */
+export function argvToOSCText(
+    addr: string,
+    types = ",",
+    values: string[] = [],
+): string {
+    const typeTags = types.charAt(0) === "," ? types : `,${types}`;
+    const tokens = [addr, typeTags];
+    let vi = 0;
+    for (const type of typeTags.slice(1)) {
+        if (type === "[" || type === "]") {
+            tokens.push(type);
+        } else if (!"TFNI".includes(type)) {
+            if (vi >= values.length) {
+                throw new OSCProtocolError({
+                    message: `missing value for '${type}'`,
+                    addr,
+                });
+            }
+            const value = values[vi++];
+            tokens.push("sSc".includes(type) ? JSON.stringify(value) : value);
+        }
+    }
+    if (vi < values.length) {
+        throw new OSCProtocolError({
+            message: `${values.length - vi} values more than type tags`,
+            addr,
+        });
+    }
+    return tokens.join(" ");
+}
+
+function formatPacket(packet: Uint8Array): string {
+    try {
+        return formatOSC(packet).replaceAll("\n", "\n    ");
+    } catch (e) {
+        return `invalid packet (${e instanceof Error ? e.message : e})`;
+    }
+}
+
+function log(line: string) {
+    console.log(`${new Date().toISOString()} ${line}`);
+}
+
+async function send(
+    url: string,
+    addr: string,
+    types?: string,
+    values?: string[],
+) {
+    const { addr: msg_addr, args } = parseOSCText(
+        argvToOSCText(addr, types, values),
+    );
+    const packet = encodeOSC_UTF8(msg_addr, args);
+    const conn = await connectOSCEndpoint(parseOSCEndpoint(url), () => {});
+    try {
+        await conn.send(packet);
+    } finally {
+        conn.close();
+    }
+}
+
+function dump(url: string) {
+    const endpoint = parseOSCEndpoint(url);
+    const listener = listenOSCEndpoint(endpoint, {
+        on_packet(packet, peer) {
+            log(`${peer.name} ${formatPacket(packet)}`);
+        },
+        on_close(peer) {
+            log(`${peer.name} disconnected`);
+        },
+        on_error(error, peer) {
+            log(`${peer?.name ?? "listener"} error: ${error}`);
+        },
+    });
+    const { hostname, port } = listener.local_addr;
+    log(`listening on ${endpoint.transport}://${hostname}:${port}`);
+}
+
+function proxy(listen_url: string, target_url: string) {
+    const target = parseOSCEndpoint(target_url);
+    // one upstream connection per client, so replies can be routed back
+    const upstreams = new Map<
+        OSCEndpointPeer,
+        Promise<OSCEndpointConnection>
+    >();
+    const endpoint = parseOSCEndpoint(listen_url);
+    const listener = listenOSCEndpoint(endpoint, {
+        on_packet(packet, peer) {
+            let upstream = upstreams.get(peer);
+            if (!upstream) {
+                upstream = connectOSCEndpoint(
+                    target,
+                    (reply) => {
+                        log(
+                            `${peer.name} <- ${target_url} ${
+                                formatPacket(reply)
+                            }`,
+                        );
+                        peer.send(reply).catch((e) =>
+                            log(`${peer.name} reply failed: ${e}`)
+                        );
+                    },
+                    (e) => log(`${peer.name} <- ${target_url} error: ${e}`),
+                );
+                upstreams.set(peer, upstream);
+            }
+            log(`${peer.name} -> ${target_url} ${formatPacket(packet)}`);
+            upstream.then((conn) => conn.send(packet)).catch((e) => {
+                log(`${peer.name} -> ${target_url} failed: ${e}`);
+                upstreams.delete(peer);
+            });
+        },
+        on_close(peer) {
+            log(`${peer.name} disconnected`);
+            upstreams.get(peer)?.then((conn) => conn.close(), () => {});
+            upstreams.delete(peer);
+        },
+        on_error(error, peer) {
+            log(`${peer?.name ?? "listener"} error: ${error}`);
+        },
+    });
+    const { hostname, port } = listener.local_addr;
+    log(`forwarding ${endpoint.transport}://${hostname}:${port} to ${target_url}`);
+}
+
+/**
+ * Runs the command line tool. Returns `false` if the command line is invalid.
+ * `dump` and `proxy` keep running after the returned promise resolved.
+ */
+export async function main(argv: string[]): Promise<boolean> {
+    const [command, ...params] = argv;
+    if (command === "send" && params.length >= 2) {
+        const [url, addr, types, ...values] = params;
+        await send(url, addr, types, values);
+    } else if (command === "dump" && params.length === 1) {
+        dump(params[0]);
+    } else if (command === "proxy" && params.length === 2) {
+        proxy(params[0], params[1]);
+    } else {
+        return false;
+    }
+    return true;
+}
+
+if (import.meta.main) {
+    try {
+        if (!await main(Deno.args)) {
+            console.error(USAGE);
+            Deno.exit(1);
+        }
+    } catch (e) {
+        console.error(e instanceof Error ? e.message : e);
+        Deno.exit(1);
+    }
+}
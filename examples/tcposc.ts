@@ -18,7 +18,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { TCPOSCAdapter } from "../mod.ts";
+import { OSCRouter, TCPOSCAdapter } from "../mod.ts";
 import type { OSCArgs } from "../mod.ts";
 
 import { TCPAdapter, type TCPAdapterCallback } from "@deno-plc/adapter-tcp";
@@ -44,19 +44,27 @@ class MyDeviceAdapterSession extends TCPOSCAdapter {
         // Step 2: pass over the tcp write callback
         super(send);
 
+        // optional: register handlers on address patterns
+        this.router.on("/ch/*/mix/fader", (args, { params: [ch] }) => {
+            console.log(`[Client] fader ${ch} = ${args[0]}`);
+        });
+
         setTimeout(() => {
             // Step 4: Use `.send(addr, args)`
             super.send("/foo/bar", [5, true]);
         });
     }
+    readonly router = new OSCRouter();
     // Step 3: implement the `on_packet` method to receive packets
     on_packet(addr: string, args: OSCArgs): void {
         console.log(
-            `[Client] [RX] ${addr}=${args.map(($) => $.toString()).join(",")}`,
+            `[Client] [RX] ${addr}=${args.map(($) => String($)).join(",")}`,
         );
+        // optional: delegate to the router
+        this.router.dispatch(addr, args);
     }
-    destroy(): void {
-        // nothing to cleanup
+    protected on_destroy(): void {
+        // nothing to cleanup (pending queries are rejected by TCPOSCAdapter)
     }
 }
 
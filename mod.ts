@@ -20,43 +20,609 @@
 
 export {
     decodeOSC,
+    decodeOSCTyped,
     encodeOSC,
     encodeOSC_UTF8,
     OSCProtocolError,
 } from "./src/oscProtocol.ts";
-export type { OSCArg, OSCArgs, OSCEncoderOptions } from "./src/oscProtocol.ts";
+export type {
+    OSCArg,
+    OSCArgs,
+    OSCDecoderOptions,
+    OSCEncodableArg,
+    OSCEncodableArgs,
+    OSCEncoderOptions,
+    OSCTypedMessage,
+} from "./src/oscProtocol.ts";
+export { encodeOSCInto, OSCEncoder } from "./src/oscEncoder.ts";
+export { OSCMessageView } from "./src/oscMessageView.ts";
+export { formatOSC, parseOSCText } from "./src/oscText.ts";
+export { OSC_SYSTEM_CLOCK, OSCManualClock } from "./src/clock.ts";
+export type { OSCClock } from "./src/clock.ts";
+export {
+    decodeOSCRecording,
+    encodeOSCRecord,
+    encodeOSCRecording,
+    OSC_RECORDING_HEADER,
+    OSCPlayer,
+    OSCRecorder,
+} from "./src/recording.ts";
+export type {
+    OSCPacketDirection,
+    OSCPacketTap,
+    OSCPlayerOptions,
+    OSCPlayerTarget,
+    OSCRecord,
+    OSCRecorderOptions,
+} from "./src/recording.ts";
+export { OSCSendQueue } from "./src/sendQueue.ts";
+export type { OSCSendQueueOptions } from "./src/sendQueue.ts";
+export { OSCScheduler } from "./src/scheduler.ts";
+export type { OSCSchedulerOptions } from "./src/scheduler.ts";
+export {
+    dateToOSCTimetag,
+    isOSCTimetagImmediate,
+    millisToOSCTimetag,
+    oscTimetagToDate,
+    oscTimetagToMillis,
+    oscTimetagToPerformance,
+    performanceToOSCTimetag,
+} from "./src/timetag.ts";
+export { OSCStateMirror } from "./src/stateMirror.ts";
+export type {
+    OSCStateChange,
+    OSCStateListener,
+    OSCStateMirrorOptions,
+} from "./src/stateMirror.ts";
+export { compileOSCTemplate } from "./src/oscTemplate.ts";
+export type { OSCTemplate, OSCTemplateArgs } from "./src/oscTemplate.ts";
+export { defineMessage } from "./src/oscSchema.ts";
+export type {
+    OSCMessageSchema,
+    OSCSchemaArgs,
+    OSCSchemaType,
+    OSCSchemaValue,
+} from "./src/oscSchema.ts";
+export { matchOSCAddress, OSCAddressPattern } from "./src/oscPattern.ts";
+export { OSCRouter } from "./src/oscRouter.ts";
+export { UDPOSCAdapter } from "./src/udpAdapter.ts";
+export { WebSocketOSCAdapter } from "./src/wsAdapter.ts";
+export { OSCHeartbeat } from "./src/heartbeat.ts";
+export type {
+    OSCConnectionState,
+    OSCHeartbeatOptions,
+} from "./src/heartbeat.ts";
+export { createOSCBridge, OSCBridge } from "./src/bridge.ts";
+export type {
+    OSCBridgeConfig,
+    OSCBridgeHandle,
+    OSCBridgeOptions,
+    OSCBridgePortConfig,
+    OSCBridgeRoute,
+    OSCBridgeSend,
+} from "./src/bridge.ts";
+export { OSCQueryAccess, OSCQueryServer } from "./src/oscQuery.ts";
+export type {
+    OSCQueryHostInfo,
+    OSCQueryMethod,
+    OSCQueryRange,
+    OSCQueryServerOptions,
+} from "./src/oscQuery.ts";
+export {
+    fetchOSCQuery,
+    fetchOSCQueryHostInfo,
+    parseOSCQueryNode,
+} from "./src/oscQueryClient.ts";
+export type { OSCQueryNode } from "./src/oscQueryClient.ts";
+export {
+    createOSCFraming,
+    encodeSizePrefixed,
+    OSCSizePrefixDecoder,
+} from "./src/framing.ts";
+export type { OSCFraming, OSCFramingType } from "./src/framing.ts";
+export {
+    createOSCStreamChannel,
+    OSCDecoderStream,
+    OSCEncoderStream,
+} from "./src/streams.ts";
+export type {
+    OSCDecoderStreamOptions,
+    OSCEncoderStreamOptions,
+    OSCStreamChannel,
+} from "./src/streams.ts";
+export type { UDPOSCAdapterOptions, UDPOSCPeer } from "./src/udpAdapter.ts";
+export type { WebSocketOSCAdapterOptions } from "./src/wsAdapter.ts";
+export type { OSCHandler, OSCRouteMatch } from "./src/oscRouter.ts";
+export {
+    osc,
+    OSC_IMPULSE,
+    OSCChar,
+    OSCColor,
+    OSCImpulse,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+} from "./src/oscTypes.ts";
+export type { OSCTypedArg } from "./src/oscTypes.ts";
+export {
+    assembleOSCBundle,
+    decodeOSCPacket,
+    encodeOSCBundle,
+    encodeOSCPacket,
+    isOSCBundle,
+    isOSCBundlePacket,
+    OSC_TIMETAG_IMMEDIATELY,
+    unpackOSCBundle,
+} from "./src/oscBundle.ts";
+export type {
+    OSCBundle,
+    OSCMessage,
+    OSCPacket,
+    OSCTimetag,
+} from "./src/oscBundle.ts";
 
 import type {
     TCPAdapterCallback,
     TCPAdapterSession,
 } from "@deno-plc/adapter-tcp";
-import { decodeOSC, type OSCArgs } from "./src/oscProtocol.ts";
-import { encodeSLIP, SLIPDecoder } from "@deno-plc/slip";
-import { encodeOSC } from "./src/oscProtocol.ts";
+import {
+    type OSCArgs,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./src/oscProtocol.ts";
+import {
+    decodeOSCPacket,
+    isOSCBundle,
+    OSC_TIMETAG_IMMEDIATELY,
+    type OSCBundle,
+    type OSCMessage,
+    type OSCTimetag,
+    splitOSCBundle,
+    unpackOSCBundle,
+} from "./src/oscBundle.ts";
+import { OSCEncoder } from "./src/oscEncoder.ts";
+import type { OSCPacketTap } from "./src/recording.ts";
+import { OSCSendQueue, type OSCSendQueueOptions } from "./src/sendQueue.ts";
+import type { OSCStateMirror } from "./src/stateMirror.ts";
+import { OSCScheduler, type OSCSchedulerOptions } from "./src/scheduler.ts";
+import { isOSCTimetagImmediate } from "./src/timetag.ts";
+import { OSCHeartbeat, type OSCHeartbeatOptions } from "./src/heartbeat.ts";
+import {
+    createOSCFraming,
+    DEFAULT_MAX_PACKET_SIZE,
+    type OSCFraming,
+} from "./src/framing.ts";
+
+export interface TCPOSCAdapterOptions {
+    /**
+     * - `slip` (default): SLIP encoded packets (OSC 1.1)
+     * - `size-prefix`: every packet is prefixed with its size as big-endian int32 (OSC 1.0)
+     */
+    framing?: "slip" | "size-prefix";
+    /**
+     * Larger packets are dropped and counted as `oversized` (default: 65536)
+     */
+    max_packet_size?: number;
+    /**
+     * What to do if a received packet is invalid (after `on_error` has been called):
+     * - `skip` (default): drop the packet and continue with the next one
+     * - `close`: destroy the session, drop all further data
+     * - `rethrow`: throw the error out of `recv`
+     */
+    error_policy?: "skip" | "close" | "rethrow";
+    /**
+     * Called with every packet received or sent, e.g. {@link OSCRecorder.tap}
+     */
+    tap?: OSCPacketTap;
+    /**
+     * Coalesce and rate limit messages sent with `send` (see {@link OSCSendQueue})
+     */
+    send_queue?: OSCSendQueueOptions;
+    /**
+     * Records the last value of every address received or sent and replays the selected addresses when the
+     * session is created (see {@link OSCStateMirror})
+     */
+    mirror?: OSCStateMirror;
+    /**
+     * Hold received bundles until their timetag before passing their messages to `on_packet` (see {@link OSCScheduler})
+     */
+    schedule?: OSCSchedulerOptions;
+    /**
+     * Send pings and monitor the connection (see {@link OSCHeartbeat})
+     */
+    heartbeat?: OSCHeartbeatOptions;
+}
+
+/**
+ * Receive counters of {@link TCPOSCAdapter}
+ */
+export interface OSCReceiveStats {
+    /**
+     * Packets decoded successfully
+     */
+    decoded: number;
+    /**
+     * Invalid packets (and framing errors)
+     */
+    dropped: number;
+    /**
+     * Packets exceeding `max_packet_size`
+     */
+    oversized: number;
+}
+
+export interface OSCQueryOptions {
+    /**
+     * Milliseconds to wait for the reply (default: 1000)
+     */
+    timeout?: number;
+    /**
+     * Decides if a received message is the reply. By default the first message with the same address is used.
+     */
+    match?: (addr: string, args: OSCArgs) => boolean;
+}
 
 /**
- * OSC-over-TCP with SLIP framing
+ * A message held by the scheduler, `packet` is recorded to the state mirror once it is dispatched
+ */
+interface ScheduledMessage {
+    message: OSCMessage;
+    packet: Uint8Array;
+}
+
+interface PendingQuery {
+    match: (addr: string, args: OSCArgs) => boolean;
+    resolve: (reply: OSCMessage) => void;
+    reject: (error: OSCProtocolError) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * OSC-over-TCP with SLIP (default) or size-prefix framing
  */
 export abstract class TCPOSCAdapter implements TCPAdapterSession {
-    constructor(send: TCPAdapterCallback) {
+    constructor(send: TCPAdapterCallback, options: TCPOSCAdapterOptions = {}) {
         this.#send_socket = send;
-        this.#slip_handler.max_carry_oversize = 200;
+        this.#tap = options.tap ?? null;
+        this.#mirror = options.mirror ?? null;
+        this.#scheduler = options.schedule
+            ? new OSCScheduler(
+                (messages) => this.#dispatch_scheduled(messages),
+                options.schedule,
+            )
+            : null;
+        this.send_queue = options.send_queue
+            ? new OSCSendQueue(
+                (packet) => this.send_packet(packet),
+                options.send_queue,
+            )
+            : null;
+        this.heartbeat = options.heartbeat
+            ? new OSCHeartbeat(
+                (packet) => this.send_packet(packet),
+                options.heartbeat,
+            )
+            : null;
+        this.#max_packet_size = options.max_packet_size ??
+            DEFAULT_MAX_PACKET_SIZE;
+        this.#error_policy = options.error_policy ?? "skip";
+        this.#framing = createOSCFraming(
+            options.framing,
+            this.#max_packet_size,
+            (size) => this.#oversized.push(size),
+        );
+        if (this.#mirror) {
+            const mirror = this.#mirror;
+            // deferred until the subclass constructor has run
+            queueMicrotask(() => {
+                if (!this.#closed) {
+                    mirror.replay(this);
+                }
+            });
+        }
     }
     #send_socket: TCPAdapterCallback;
-    readonly #slip_handler = new SLIPDecoder();
+    readonly #tap: OSCPacketTap | null;
+    readonly #mirror: OSCStateMirror | null;
+    readonly #scheduler: OSCScheduler<ScheduledMessage[]> | null;
+    readonly #framing: OSCFraming;
+    readonly #encoder = new OSCEncoder();
+    readonly #max_packet_size: number;
+    readonly #error_policy: "skip" | "close" | "rethrow";
+    readonly #stats: OSCReceiveStats = { decoded: 0, dropped: 0, oversized: 0 };
+    /**
+     * Sizes of the packets skipped by the framing during the current `recv`
+     */
+    readonly #oversized: number[] = [];
+    #closed = false;
+
+    /**
+     * The send queue if enabled by the `send_queue` option
+     */
+    readonly send_queue: OSCSendQueue | null;
+    /**
+     * Connection monitoring if enabled by the `heartbeat` option
+     */
+    readonly heartbeat: OSCHeartbeat | null;
+    readonly #pending_queries: PendingQuery[] = [];
+
+    /**
+     * Receive counters
+     */
+    get stats(): Readonly<OSCReceiveStats> {
+        return { ...this.#stats };
+    }
 
     recv(data: Uint8Array): void {
-        for (const packet of this.#slip_handler.decode(data)) {
-            const [addr, args] = decodeOSC(packet);
-            this.on_packet(addr, args);
+        if (this.#closed) {
+            return;
+        }
+        let packets: Uint8Array[];
+        try {
+            packets = this.#framing.decode(data);
+        } catch (e) {
+            // the stream cannot be resynchronized, the decoder discarded its buffer
+            this.#oversized.length = 0;
+            this.#stats.dropped++;
+            this.#handle_error(e, data);
+            return;
+        }
+        for (const size of this.#oversized.splice(0)) {
+            if (!this.#drop_oversized(size, data)) {
+                return;
+            }
+        }
+
+        for (const packet of packets) {
+            this.#tap?.(packet, "in");
+            let decoded;
+            try {
+                decoded = decodeOSCPacket(packet);
+            } catch (e) {
+                this.#stats.dropped++;
+                if (!this.#handle_error(e, packet)) {
+                    return;
+                }
+                continue;
+            }
+            this.#stats.decoded++;
+            if (this.#scheduler && isOSCBundle(decoded)) {
+                // recorded to the mirror at the timetag, when the values take effect
+                this.#schedule_bundle(this.#scheduler, decoded, packet);
+                continue;
+            }
+            if (!this.#record(packet)) {
+                return;
+            }
+            // bundles are unpacked, their messages are passed on one by one
+            for (const message of unpackOSCBundle(decoded)) {
+                this.#dispatch(message);
+            }
+        }
+    }
+
+    /**
+     * Records a received packet to the state mirror. Returns `false` if processing has to stop.
+     */
+    #record(packet: Uint8Array): boolean {
+        if (this.#mirror) {
+            try {
+                this.#mirror.record(packet, "in");
+            } catch (e) {
+                // thrown by a listener of the mirror, the message itself is valid
+                return this.#handle_error(e, packet);
+            }
+        }
+        return true;
+    }
+
+    #dispatch_scheduled(messages: ScheduledMessage[]) {
+        for (const { message, packet } of messages) {
+            if (this.#closed || !this.#record(packet)) {
+                return;
+            }
+            this.#dispatch(message);
+        }
+    }
+
+    #dispatch(message: OSCMessage) {
+        if (this.heartbeat?.recv(message.addr)) {
+            return;
+        }
+        if (!this.#resolve_query(message)) {
+            this.on_packet(message.addr, message.args);
+        }
+    }
+
+    /**
+     * Schedules the messages of the bundle at its timetag, nested bundles at their own timetag
+     */
+    #schedule_bundle(
+        scheduler: OSCScheduler<ScheduledMessage[]>,
+        bundle: OSCBundle,
+        packet: Uint8Array,
+        parent: OSCTimetag = OSC_TIMETAG_IMMEDIATELY,
+    ) {
+        const timetag = isOSCTimetagImmediate(bundle.timetag)
+            ? parent
+            : bundle.timetag;
+        // the raw elements in the same order as the decoded ones
+        const raw = splitOSCBundle(packet).elements;
+        let messages: ScheduledMessage[] = [];
+        bundle.elements.forEach((element, i) => {
+            if (isOSCBundle(element)) {
+                // keeps the order of messages with the same timetag
+                if (messages.length > 0) {
+                    scheduler.schedule(timetag, messages);
+                    messages = [];
+                }
+                this.#schedule_bundle(scheduler, element, raw[i], timetag);
+            } else {
+                // copied, the received packet might be a view into a reused buffer
+                messages.push({ message: element, packet: raw[i].slice() });
+            }
+        });
+        if (messages.length > 0) {
+            scheduler.schedule(timetag, messages);
+        }
+    }
+
+    #drop_oversized(size: number, packet: Uint8Array): boolean {
+        this.#stats.oversized++;
+        return this.#handle_error(
+            new OSCProtocolError({
+                message:
+                    `packet size ${size} exceeds max_packet_size ${this.#max_packet_size}`,
+                packet,
+            }),
+            packet,
+        );
+    }
+
+    /**
+     * Applies the error policy. Returns `false` if processing has to stop.
+     */
+    #handle_error(error: unknown, packet: Uint8Array): boolean {
+        this.on_error(error, packet);
+        switch (this.#error_policy) {
+            case "skip":
+                return true;
+            case "close":
+                this.destroy();
+                return false;
+            case "rethrow":
+                throw error;
+        }
+    }
+
+    /**
+     * Called if a received packet is invalid or too large, before the `error_policy` is applied. Override to log it.
+     * For oversized packets `packet` is the received chunk, the packet itself is not buffered.
+     */
+    protected on_error(_error: unknown, _packet: Uint8Array): void {}
+
+    #resolve_query(message: OSCMessage): boolean {
+        // oldest first: replies to the same address arrive in order
+        const index = this.#pending_queries.findIndex(($) =>
+            $.match(message.addr, message.args)
+        );
+        if (index === -1) {
+            return false;
         }
+        const [query] = this.#pending_queries.splice(index, 1);
+        clearTimeout(query.timer);
+        query.resolve(message);
+        return true;
     }
 
     protected abstract on_packet(addr: string, args: OSCArgs): void;
 
-    send(addr: string, args: OSCArgs = []) {
-        this.#send_socket(encodeSLIP(encodeOSC(addr, args)));
+    /**
+     * Throws if the adapter is destroyed
+     */
+    send(addr: string, args: OSCEncodableArgs = []) {
+        this.#check_open();
+        if (this.send_queue) {
+            this.send_queue.send(addr, args);
+            return;
+        }
+        // the framing copies the packet, so the scratch buffer of the encoder can be used
+        this.send_packet(this.#encoder.encode(addr, args));
     }
 
-    abstract destroy(): void;
+    /**
+     * Sends an already encoded packet, e.g. from {@link compileOSCTemplate}, {@link defineMessage} or {@link encodeOSCBundle}
+     */
+    send_packet(packet: Uint8Array) {
+        this.#check_open();
+        this.#tap?.(packet, "out");
+        this.#mirror?.record(packet, "out");
+        this.#send_socket(this.#framing.encode(packet));
+    }
+
+    /**
+     * Sends a message and waits for the reply. The reply is not passed to `on_packet`.
+     * The query bypasses the send queue, so queries to the same address are never merged.
+     *
+     * Rejects with {@link OSCProtocolError} on timeout or if the adapter is destroyed.
+     */
+    query(
+        addr: string,
+        args: OSCEncodableArgs = [],
+        options: OSCQueryOptions = {},
+    ): Promise<OSCMessage> {
+        if (this.#closed) {
+            return Promise.reject(
+                new OSCProtocolError({
+                    message: `adapter destroyed`,
+                    addr,
+                    args,
+                }),
+            );
+        }
+        const timeout = options.timeout ?? 1000;
+        const match = options.match ?? (($) => $ === addr);
+        const promise = new Promise<OSCMessage>((resolve, reject) => {
+            const query: PendingQuery = {
+                match,
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    this.#pending_queries.splice(
+                        this.#pending_queries.indexOf(query),
+                        1,
+                    );
+                    reject(
+                        new OSCProtocolError({
+                            message: `query timed out after ${timeout}ms`,
+                            addr,
+                            args,
+                        }),
+                    );
+                }, timeout),
+            };
+            this.#pending_queries.push(query);
+        });
+        try {
+            this.send_packet(this.#encoder.encode(addr, args));
+        } catch (e) {
+            // the query has been pushed last
+            clearTimeout(this.#pending_queries.pop()!.timer);
+            throw e;
+        }
+        return promise;
+    }
+
+    /**
+     * Called when the connection is closed (and by the `close` error policy). Rejects pending queries, drops queued
+     * and scheduled messages, stops the heartbeat and calls {@link TCPOSCAdapter.on_destroy}. Data received afterwards
+     * is ignored, sending throws. Further calls have no effect.
+     */
+    destroy(): void {
+        if (this.#closed) {
+            return;
+        }
+        this.#closed = true;
+        this.send_queue?.clear();
+        this.#scheduler?.clear();
+        this.heartbeat?.stop();
+        for (const query of this.#pending_queries.splice(0)) {
+            clearTimeout(query.timer);
+            query.reject(
+                new OSCProtocolError({ message: `adapter destroyed` }),
+            );
+        }
+        this.on_destroy();
+    }
+
+    /**
+     * Called once by {@link TCPOSCAdapter.destroy} to release the resources of the subclass
+     */
+    protected abstract on_destroy(): void;
+
+    #check_open() {
+        if (this.#closed) {
+            throw new Error(`TCPOSCAdapter: adapter destroyed`);
+        }
+    }
 }
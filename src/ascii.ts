@@ -21,6 +21,7 @@
 export enum ASCII {
     NULL = 0,
     COMMA = 44,
+    SLASH = 47,
     s = 115,
     i = 105,
     b = 98,
@@ -28,4 +29,14 @@ export enum ASCII {
     d = 100,
     T = 84,
     F = 70,
+    h = 104,
+    t = 116,
+    c = 99,
+    r = 114,
+    m = 109,
+    N = 78,
+    I = 73,
+    S = 83,
+    BRACKET_OPEN = 91,
+    BRACKET_CLOSE = 93,
 }
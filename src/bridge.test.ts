@@ -0,0 +1,188 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals } from "@std/assert";
+import { createOSCBridge, OSCBridge } from "./bridge.ts";
+import { decodeOSC, encodeOSC } from "./oscProtocol.ts";
+import {
+    decodeOSCPacket,
+    encodeOSCBundle,
+    OSC_TIMETAG_IMMEDIATELY,
+} from "./oscBundle.ts";
+import { osc } from "./oscTypes.ts";
+import { OSCManualClock } from "./clock.ts";
+import { connectOSCEndpoint } from "./endpoint.ts";
+
+function setup(bridge: OSCBridge, ...names: string[]) {
+    const sent: Record<string, Uint8Array[]> = {};
+    const recv: Record<string, (packet: Uint8Array) => void> = {};
+    for (const name of names) {
+        sent[name] = [];
+        recv[name] = bridge.add_port(name, (packet) => sent[name].push(packet));
+    }
+    return { sent, recv };
+}
+
+Deno.test("bridge routes", () => {
+    const bridge = new OSCBridge({
+        loop_window: 0,
+        routes: [
+            { from: "desk", to: ["a", "b"], add_prefix: "/desk" },
+            {
+                from: ["a", "b"],
+                to: "desk",
+                strip_prefix: "/desk",
+                addresses: ["/desk/ch/*/fader"],
+            },
+            {
+                from: "a",
+                to: "b",
+                addresses: ["/scale"],
+                transform: ([value]) =>
+                    typeof value === "number" ? [value * 2] : null,
+            },
+        ],
+    });
+    const { sent, recv } = setup(bridge, "desk", "a", "b");
+
+    const fader = encodeOSC("/ch/01/fader", [osc.float(1)]);
+    recv.desk(fader);
+    // the type tags are kept
+    assertEquals(sent.a, [encodeOSC("/desk/ch/01/fader", [osc.float(1)])]);
+    assertEquals(sent.b, sent.a);
+
+    recv.a(encodeOSC("/desk/ch/02/fader", [0.5]));
+    recv.a(encodeOSC("/desk/ch/02/name", ["x"]));
+    assertEquals(sent.desk, [encodeOSC("/ch/02/fader", [0.5])]);
+
+    recv.a(encodeOSC("/scale", [2]));
+    recv.a(encodeOSC("/scale", ["dropped"]));
+    // whole numbers stay floats
+    recv.a(encodeOSC("/scale", [osc.float(0.5)]));
+    recv.a(encodeOSC("/scale", [osc.double(2)]));
+    assertEquals(sent.b.slice(1), [
+        encodeOSC("/scale", [4]),
+        encodeOSC("/scale", [osc.float(1)]),
+        encodeOSC("/scale", [osc.double(4)]),
+    ]);
+});
+
+Deno.test("bridge bundles", () => {
+    const bridge = new OSCBridge({
+        routes: [{ from: "in", to: "out", addresses: ["/keep"] }],
+    });
+    const { sent, recv } = setup(bridge, "in", "out");
+    recv.in(encodeOSCBundle({
+        timetag: 1234n,
+        elements: [
+            { addr: "/keep", args: [1] },
+            { addr: "/drop", args: [2] },
+            {
+                timetag: OSC_TIMETAG_IMMEDIATELY,
+                elements: [{ addr: "/drop", args: [] }],
+            },
+        ],
+    }));
+    assertEquals(sent.out.map(($) => decodeOSCPacket($)), [{
+        timetag: 1234n,
+        elements: [{ addr: "/keep", args: [1] }],
+    }]);
+});
+
+Deno.test("bridge loop prevention", () => {
+    const clock = new OSCManualClock();
+    const errors: string[] = [];
+    const bridge = new OSCBridge({
+        clock,
+        loop_window: 50,
+        on_error: (_, port) => errors.push(port),
+        routes: [{ from: "a", to: "b" }, { from: "b", to: "a" }],
+    });
+    const { sent, recv } = setup(bridge, "a", "b");
+
+    const msg = encodeOSC("/fader", [0.5]);
+    recv.a(msg);
+    // b echoes the message
+    recv.b(msg);
+    assertEquals(sent.a, []);
+    assertEquals(sent.b, [msg]);
+
+    // a real change after the window is forwarded
+    clock.advance(100);
+    recv.b(msg);
+    assertEquals(sent.a, [msg]);
+
+    recv.a(new Uint8Array([1, 2, 3]));
+    assertEquals(errors, ["a"]);
+
+    // sending again extends the window, also when expired entries are pruned on send
+    sent.b.length = 0;
+    recv.b(msg);
+    clock.advance(40);
+    recv.b(msg);
+    clock.advance(20);
+    recv.b(encodeOSC("/other", []));
+    recv.a(msg);
+    assertEquals(sent.b, []);
+    clock.advance(40);
+    recv.a(msg);
+    assertEquals(sent.b, [msg]);
+});
+
+Deno.test("bridge config", async () => {
+    const received: [string, unknown][] = [];
+    const { local_addrs, close } = await createOSCBridge({
+        ports: {
+            in: { listen: "udp://127.0.0.1:0" },
+            out: { listen: "udp://127.0.0.1:0" },
+        },
+        routes: [{ from: "in", to: "out", add_prefix: "/in" }],
+    });
+    const listener = await connectOSCEndpoint(
+        {
+            transport: "udp",
+            hostname: "127.0.0.1",
+            port: local_addrs.out.port,
+        },
+        (packet) => received.push(decodeOSC(packet)),
+    );
+    const sender = await connectOSCEndpoint(
+        {
+            transport: "udp",
+            hostname: "127.0.0.1",
+            port: local_addrs.in.port,
+        },
+        () => {},
+    );
+    try {
+        // registers the listener as peer of `out`
+        await listener.send(encodeOSC("/hello", []));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await sender.send(encodeOSC("/foo", [1]));
+        for (let i = 0; i < 100 && received.length === 0; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+        assertEquals(received, [["/in/foo", [1]]]);
+    } finally {
+        listener.close();
+        sender.close();
+        close();
+    }
+});
@@ -0,0 +1,481 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_SYSTEM_CLOCK, type OSCClock } from "./clock.ts";
+import {
+    assembleOSCBundle,
+    isOSCBundlePacket,
+    type OSCTimetag,
+    splitOSCBundle,
+} from "./oscBundle.ts";
+import {
+    connectOSCEndpoint,
+    listenOSCEndpoint,
+    type OSCEndpointPeer,
+    parseOSCEndpoint,
+} from "./endpoint.ts";
+import { OSCAddressPattern } from "./oscPattern.ts";
+import {
+    decodeOSC,
+    decodeOSCTyped,
+    encodeOSC,
+    type OSCArgs,
+    type OSCEncodableArg,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+
+/**
+ * Forwards messages from one or more ports to one or more other ports
+ */
+export interface OSCBridgeRoute {
+    /**
+     * Source port name(s)
+     */
+    from: string | string[];
+    /**
+     * Target port name(s). The source port is always skipped.
+     */
+    to: string | string[];
+    /**
+     * Only forward messages matching one of these address patterns (default: all). Matched before rewriting.
+     */
+    addresses?: string[];
+    /**
+     * Removed from the start of the address (messages without it are not forwarded)
+     */
+    strip_prefix?: string;
+    /**
+     * Added to the start of the address (after `strip_prefix` has been removed)
+     */
+    add_prefix?: string;
+    /**
+     * Replaces the arguments, `null` drops the message. `addr` is the rewritten address.
+     * Returned numbers keep the float type tag (`f` or `d`) of the original argument at the same position, use
+     * `osc.int(...)` etc. to choose another type.
+     */
+    transform?: (args: OSCArgs, addr: string) => OSCEncodableArgs | null;
+}
+
+/**
+ * Sends a packet out of a port. Returned promises are awaited to report errors.
+ */
+export type OSCBridgeSend = (packet: Uint8Array) => unknown;
+
+export interface OSCBridgeOptions {
+    routes?: OSCBridgeRoute[];
+    /**
+     * Messages received from a port within this many milliseconds after the bridge sent the same message to it
+     * are treated as echo and dropped (default: 100, `0` disables it)
+     */
+    loop_window?: number;
+    /**
+     * Called with invalid packets and failed sends (default: ignored)
+     */
+    on_error?: (error: unknown, port: string) => void;
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+interface CompiledRoute {
+    from: Set<string>;
+    to: string[];
+    addresses: OSCAddressPattern[] | null;
+    strip_prefix: string;
+    add_prefix: string;
+    transform: OSCBridgeRoute["transform"] | null;
+}
+
+interface BridgePort {
+    send: OSCBridgeSend;
+    /**
+     * Messages recently sent to the port and when they expire (in insertion order)
+     */
+    sent: Map<string, number>;
+}
+
+const latin1 = new TextDecoder("latin1");
+
+/**
+ * Connects any number of ports (transports) with routes. Bundles keep their timetag, their messages are routed one by one.
+ *
+ * ```ts
+ * const bridge = new OSCBridge({
+ *     routes: [
+ *         { from: "desk", to: ["ipad", "log"], add_prefix: "/desk" },
+ *         { from: "ipad", to: "desk", strip_prefix: "/desk", addresses: ["/desk/ch/*\/mix/*"] },
+ *     ],
+ * });
+ * const recv = bridge.add_port("desk", (packet) => session.send_packet(packet));
+ * // in on_packet / the receive loop of the transport
+ * recv(packet);
+ * ```
+ *
+ * See {@link createOSCBridge} for bridging endpoints from a config object.
+ */
+export class OSCBridge {
+    constructor(options: OSCBridgeOptions = {}) {
+        this.#loop_window = options.loop_window ?? 100;
+        this.#on_error = options.on_error ?? (() => {});
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+        for (const route of options.routes ?? []) {
+            this.add_route(route);
+        }
+    }
+    readonly #loop_window: number;
+    readonly #on_error: (error: unknown, port: string) => void;
+    readonly #clock: OSCClock;
+    readonly #ports = new Map<string, BridgePort>();
+    readonly #routes: CompiledRoute[] = [];
+
+    /**
+     * Registers a port. Returns the function to pass received packets to (same as {@link OSCBridge.recv}).
+     */
+    add_port(name: string, send: OSCBridgeSend): (packet: Uint8Array) => void {
+        if (this.#ports.has(name)) {
+            throw new Error(`OSCBridge: port '${name}' already exists`);
+        }
+        this.#ports.set(name, { send, sent: new Map() });
+        return (packet) => this.recv(name, packet);
+    }
+
+    remove_port(name: string): void {
+        this.#ports.delete(name);
+    }
+
+    /**
+     * Adds a route. Returns a function to remove it again.
+     */
+    add_route(route: OSCBridgeRoute): () => void {
+        const compiled: CompiledRoute = {
+            from: new Set([route.from].flat()),
+            to: [route.to].flat(),
+            addresses: route.addresses?.map(($) => new OSCAddressPattern($)) ??
+                null,
+            strip_prefix: route.strip_prefix ?? "",
+            add_prefix: route.add_prefix ?? "",
+            transform: route.transform ?? null,
+        };
+        this.#routes.push(compiled);
+        return () => {
+            const index = this.#routes.indexOf(compiled);
+            if (index !== -1) {
+                this.#routes.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Routes a packet received by a port
+     */
+    recv(port_name: string, packet: Uint8Array): void {
+        const port = this.#ports.get(port_name);
+        if (!port) {
+            return;
+        }
+        const now = this.#clock.now();
+        prune(port, now);
+
+        // target port name => forwarded packets
+        const output = new Map<string, Set<Uint8Array>>();
+        try {
+            const filtered = this.#drop_echoes(port, packet);
+            for (const route of this.#routes) {
+                if (!filtered || !route.from.has(port_name)) {
+                    continue;
+                }
+                const routed = this.#route_packet(route, filtered);
+                if (!routed) {
+                    continue;
+                }
+                for (const target of route.to) {
+                    if (target !== port_name && this.#ports.has(target)) {
+                        // unchanged packets are sent once if several routes lead to the same port
+                        output.set(
+                            target,
+                            (output.get(target) ?? new Set()).add(routed),
+                        );
+                    }
+                }
+            }
+        } catch (e) {
+            this.#on_error(e, port_name);
+            return;
+        }
+
+        for (const [target, packets] of output) {
+            for (const routed of packets) {
+                this.#send(target, routed, now);
+            }
+        }
+    }
+
+    /**
+     * Removes the messages the bridge recently sent to the port. Returns `null` if nothing is left.
+     */
+    #drop_echoes(port: BridgePort, packet: Uint8Array): Uint8Array | null {
+        if (port.sent.size === 0) {
+            return packet;
+        }
+        if (isOSCBundlePacket(packet)) {
+            const { timetag, elements } = splitOSCBundle(packet);
+            return rebuildBundle(
+                packet,
+                timetag,
+                elements,
+                elements.map((element) => this.#drop_echoes(port, element)),
+            );
+        }
+        return port.sent.delete(latin1.decode(packet)) ? null : packet;
+    }
+
+    /**
+     * Applies the route to a message or bundle. Returns `null` if nothing is left to forward.
+     */
+    #route_packet(route: CompiledRoute, packet: Uint8Array): Uint8Array | null {
+        if (isOSCBundlePacket(packet)) {
+            const { timetag, elements } = splitOSCBundle(packet);
+            return rebuildBundle(
+                packet,
+                timetag,
+                elements,
+                elements.map((element) => this.#route_packet(route, element)),
+            );
+        }
+
+        const [addr, args] = decodeOSC(packet);
+        if (route.addresses && !route.addresses.some(($) => $.match(addr))) {
+            return null;
+        }
+        if (!addr.startsWith(route.strip_prefix)) {
+            return null;
+        }
+        const target_addr = route.add_prefix +
+            addr.slice(route.strip_prefix.length);
+        if (route.transform) {
+            const target_args = route.transform(args, target_addr);
+            return target_args && encodeOSC(
+                target_addr,
+                retype(target_args, decodeOSCTyped(packet).args),
+            );
+        }
+        if (target_addr === addr) {
+            return packet;
+        }
+        if (target_addr.charAt(0) !== "/") {
+            throw new OSCProtocolError({
+                message:
+                    `rewritten address '${target_addr}' does not start with '/'`,
+                addr,
+                args,
+            });
+        }
+        // keeps the original type tags
+        return encodeOSC(target_addr, decodeOSCTyped(packet).args);
+    }
+
+    #send(name: string, packet: Uint8Array, now: number) {
+        const port = this.#ports.get(name)!;
+        if (this.#loop_window > 0) {
+            // output-only ports never receive, the entries would pile up otherwise
+            prune(port, now);
+            this.#remember(port, packet, now + this.#loop_window);
+        }
+        try {
+            Promise.resolve(port.send(packet)).catch((e) =>
+                this.#on_error(e, name)
+            );
+        } catch (e) {
+            this.#on_error(e, name);
+        }
+    }
+
+    #remember(port: BridgePort, packet: Uint8Array, expires: number) {
+        if (isOSCBundlePacket(packet)) {
+            for (const element of splitOSCBundle(packet).elements) {
+                this.#remember(port, element, expires);
+            }
+        } else {
+            // re-inserted to keep the map ordered by expiry
+            const key = latin1.decode(packet);
+            port.sent.delete(key);
+            port.sent.set(key, expires);
+        }
+    }
+}
+
+/**
+ * Removes the expired echo suppression entries
+ */
+function prune(port: BridgePort, now: number) {
+    // entries are ordered by expiry (see #remember)
+    for (const [key, expires] of port.sent) {
+        if (expires >= now) {
+            break;
+        }
+        port.sent.delete(key);
+    }
+}
+
+/**
+ * Applies the float type tags of the original arguments to the numbers at the same positions (also within arrays)
+ */
+function retype(
+    args: OSCEncodableArgs,
+    original: readonly OSCEncodableArg[],
+): OSCEncodableArg[] {
+    return args.map((arg, i) => {
+        const typed = original[i];
+        if (typeof typed !== "object" || typed === null || !("type" in typed)) {
+            return arg;
+        }
+        if (
+            typeof arg === "number" &&
+            (typed.type === "f" || typed.type === "d")
+        ) {
+            return { type: typed.type, value: arg };
+        }
+        if (Array.isArray(arg) && typed.type === "[") {
+            return { type: "[", value: retype(arg, typed.value) };
+        }
+        return arg;
+    });
+}
+
+/**
+ * Reassembles a bundle from the processed elements (`null`: removed). Returns the original packet if nothing changed
+ * and `null` if no element is left.
+ */
+function rebuildBundle(
+    packet: Uint8Array,
+    timetag: OSCTimetag,
+    elements: readonly Uint8Array[],
+    processed: readonly (Uint8Array | null)[],
+): Uint8Array | null {
+    if (processed.every((element, i) => element === elements[i])) {
+        return packet;
+    }
+    const kept = processed.filter(($) => $ !== null);
+    return kept.length > 0 ? assembleOSCBundle(timetag, kept) : null;
+}
+
+/**
+ * Port of {@link createOSCBridge}: connect to an endpoint or listen on it. Packets sent to a listening port are sent to
+ * all its peers (UDP senders seen so far, connected TCP clients).
+ */
+export type OSCBridgePortConfig = { connect: string } | { listen: string };
+
+export interface OSCBridgeConfig extends OSCBridgeOptions {
+    /**
+     * Port name => endpoint (`udp://host:port` or `tcp://host:port`)
+     */
+    ports: Record<string, OSCBridgePortConfig>;
+    routes: OSCBridgeRoute[];
+}
+
+/**
+ * A running bridge created by {@link createOSCBridge}
+ */
+export interface OSCBridgeHandle {
+    readonly bridge: OSCBridge;
+    /**
+     * Local addresses of the listening ports
+     */
+    readonly local_addrs: Record<string, Deno.NetAddr>;
+    /**
+     * Closes all connections and listeners
+     */
+    close(): void;
+}
+
+/**
+ * Creates a bridge between network endpoints from a config object.
+ *
+ * ```ts
+ * const { close } = await createOSCBridge({
+ *     ports: {
+ *         desk: { connect: "tcp://192.168.1.10:3032" },
+ *         clients: { listen: "udp://0.0.0.0:9000" },
+ *     },
+ *     routes: [
+ *         { from: "desk", to: "clients" },
+ *         { from: "clients", to: "desk", addresses: ["/ch/*\/mix/*"] },
+ *     ],
+ * });
+ * ```
+ */
+export async function createOSCBridge(
+    config: OSCBridgeConfig,
+): Promise<OSCBridgeHandle> {
+    const bridge = new OSCBridge(config);
+    const closers: (() => void)[] = [];
+    const local_addrs: Record<string, Deno.NetAddr> = {};
+    const close = () => {
+        for (const close of closers.splice(0)) {
+            close();
+        }
+    };
+
+    try {
+        for (const [name, port] of Object.entries(config.ports)) {
+            if ("connect" in port) {
+                let recv: (packet: Uint8Array) => void = () => {};
+                const conn = await connectOSCEndpoint(
+                    parseOSCEndpoint(port.connect),
+                    (packet) => recv(packet),
+                    (e) => config.on_error?.(e, name),
+                );
+                closers.push(() => conn.close());
+                recv = bridge.add_port(name, (packet) => conn.send(packet));
+            } else {
+                const peers = new Set<OSCEndpointPeer>();
+                const recv = bridge.add_port(
+                    name,
+                    (packet) =>
+                        Promise.all([...peers].map(($) => $.send(packet))),
+                );
+                const listener = listenOSCEndpoint(
+                    parseOSCEndpoint(port.listen),
+                    {
+                        on_packet(packet, peer) {
+                            peers.add(peer);
+                            recv(packet);
+                        },
+                        on_close(peer) {
+                            peers.delete(peer);
+                        },
+                        on_error(e) {
+                            config.on_error?.(e, name);
+                        },
+                    },
+                );
+                closers.push(() => listener.close());
+                local_addrs[name] = listener.local_addr;
+            }
+        }
+    } catch (e) {
+        close();
+        throw e;
+    }
+
+    return { bridge, local_addrs, close };
+}
@@ -0,0 +1,71 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { argvToOSCText, main } from "../cli.ts";
+import { listenOSCEndpoint } from "./endpoint.ts";
+import { formatOSC } from "./oscText.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+Deno.test("cli argv to text", () => {
+    assertEquals(argvToOSCText("/foo"), "/foo ,");
+    assertEquals(
+        argvToOSCText("/foo/bar", ",ifsT", ["1", "2.5", "h i"]),
+        `/foo/bar ,ifsT 1 2.5 "h i"`,
+    );
+    assertEquals(
+        argvToOSCText("/foo", "i[ic]", ["1", "2", "x"]),
+        `/foo ,i[ic] 1 [ 2 "x" ]`,
+    );
+    assertThrows(
+        () => argvToOSCText("/foo", ",ii", ["1"]),
+        OSCProtocolError,
+        "missing value for 'i'",
+    );
+    assertThrows(
+        () => argvToOSCText("/foo", ",i", ["1", "2"]),
+        OSCProtocolError,
+        "1 values more than type tags",
+    );
+});
+
+Deno.test("cli send", async () => {
+    let received = Promise.withResolvers<string>();
+    const listener = listenOSCEndpoint(
+        { transport: "udp", hostname: "127.0.0.1", port: 0 },
+        { on_packet: (packet) => received.resolve(formatOSC(packet)) },
+    );
+    try {
+        const url = `udp://127.0.0.1:${listener.local_addr.port}`;
+        assertEquals(
+            await main(["send", url, "/foo", ",ifs", "1", "2.5", "hi"]),
+            true,
+        );
+        assertEquals(await received.promise, `/foo ,ifs 1 2.5 "hi"`);
+
+        received = Promise.withResolvers<string>();
+        assertEquals(await main(["send", url, "/name", ",s", "Müller"]), true);
+        assertEquals(await received.promise, `/name ,s "Müller"`);
+        assertEquals(await main(["send", url]), false);
+        assertEquals(await main(["foo"]), false);
+    } finally {
+        listener.close();
+    }
+});
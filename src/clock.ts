@@ -0,0 +1,108 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Time source for the recorder, player and scheduler. Times are in milliseconds.
+ */
+export interface OSCClock {
+    /**
+     * Current time (milliseconds since the Unix epoch for {@link OSC_SYSTEM_CLOCK})
+     */
+    now(): number;
+    /**
+     * Calls `callback` after `delay` milliseconds. Returns a function to cancel it.
+     */
+    schedule(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * Real time clock (`performance` based, so it is monotonic)
+ */
+export const OSC_SYSTEM_CLOCK: OSCClock = {
+    now: () => performance.timeOrigin + performance.now(),
+    schedule(callback, delay) {
+        const timer = setTimeout(callback, delay);
+        return () => clearTimeout(timer);
+    },
+};
+
+/**
+ * In-memory clock for tests. Time only passes when {@link OSCManualClock.advance} is called.
+ */
+export class OSCManualClock implements OSCClock {
+    constructor(start = 0) {
+        this.#now = start;
+    }
+    #now: number;
+    #seq = 0;
+    #timers: { time: number; seq: number; callback: () => void }[] = [];
+
+    now(): number {
+        return this.#now;
+    }
+
+    schedule(callback: () => void, delay: number): () => void {
+        const timer = {
+            time: this.#now + Math.max(0, delay),
+            seq: this.#seq++,
+            callback,
+        };
+        this.#timers.push(timer);
+        return () => {
+            const index = this.#timers.indexOf(timer);
+            if (index !== -1) {
+                this.#timers.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Moves the time forward, running due callbacks in order (including callbacks scheduled by them)
+     */
+    advance(ms: number): void {
+        const target = this.#now + ms;
+        while (true) {
+            let next = null;
+            for (const timer of this.#timers) {
+                if (
+                    timer.time <= target &&
+                    (!next || timer.time < next.time ||
+                        (timer.time === next.time && timer.seq < next.seq))
+                ) {
+                    next = timer;
+                }
+            }
+            if (!next) {
+                break;
+            }
+            this.#timers.splice(this.#timers.indexOf(next), 1);
+            this.#now = next.time;
+            next.callback();
+        }
+        this.#now = target;
+    }
+
+    /**
+     * Number of scheduled callbacks
+     */
+    get pending(): number {
+        return this.#timers.length;
+    }
+}
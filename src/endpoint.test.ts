@@ -0,0 +1,132 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+    connectOSCEndpoint,
+    listenOSCEndpoint,
+    type OSCEndpoint,
+    parseOSCEndpoint,
+} from "./endpoint.ts";
+import {
+    decodeOSC,
+    encodeOSC,
+    type OSCArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+
+Deno.test("endpoint parse", () => {
+    assertEquals(parseOSCEndpoint("udp://127.0.0.1:9000"), {
+        transport: "udp",
+        hostname: "127.0.0.1",
+        port: 9000,
+    });
+    assertEquals(parseOSCEndpoint("tcp://[::1]:3032"), {
+        transport: "tcp",
+        hostname: "::1",
+        port: 3032,
+    });
+    for (const url of ["http://foo:80", "udp://foo", "127.0.0.1:9000"]) {
+        assertThrows(
+            () => parseOSCEndpoint(url),
+            OSCProtocolError,
+            "invalid endpoint",
+        );
+    }
+});
+
+for (const transport of ["udp", "tcp"] as const) {
+    Deno.test(`endpoint ${transport} roundtrip`, async () => {
+        const closed = Promise.withResolvers<string>();
+        const listener = listenOSCEndpoint(
+            { transport, hostname: "127.0.0.1", port: 0 },
+            {
+                on_packet(packet, peer) {
+                    const [addr, args] = decodeOSC(packet);
+                    // echo
+                    peer.send(encodeOSC(`${addr}/ack`, args));
+                },
+                on_close(peer) {
+                    closed.resolve(peer.name);
+                },
+            },
+        );
+        const endpoint: OSCEndpoint = {
+            transport,
+            hostname: "127.0.0.1",
+            port: listener.local_addr.port,
+        };
+
+        const reply = Promise.withResolvers<[string, OSCArgs]>();
+        const conn = await connectOSCEndpoint(endpoint, (packet) => {
+            reply.resolve(decodeOSC(packet));
+        });
+        assertEquals(conn.name, `127.0.0.1:${endpoint.port}`);
+        await conn.send(encodeOSC("/foo", [1, "bar"]));
+        assertEquals(await reply.promise, ["/foo/ack", [1, "bar"]]);
+
+        conn.close();
+        if (transport === "tcp") {
+            assertEquals((await closed.promise).startsWith("127.0.0.1:"), true);
+        }
+        listener.close();
+    });
+}
+
+for (const transport of ["udp", "tcp"] as const) {
+    Deno.test(`endpoint ${transport} handler errors`, async () => {
+        const received: string[] = [];
+        const errors: [unknown, string | undefined][] = [];
+        const done = Promise.withResolvers<void>();
+        const listener = listenOSCEndpoint(
+            { transport, hostname: "127.0.0.1", port: 0 },
+            {
+                on_packet(packet) {
+                    const [addr] = decodeOSC(packet);
+                    if (addr === "/throw") {
+                        throw new Error("handler");
+                    }
+                    received.push(addr);
+                    done.resolve();
+                },
+                on_error(error, peer) {
+                    errors.push([error, peer?.name]);
+                },
+            },
+        );
+        const conn = await connectOSCEndpoint({
+            transport,
+            hostname: "127.0.0.1",
+            port: listener.local_addr.port,
+        }, () => {});
+        try {
+            await conn.send(encodeOSC("/throw", []));
+            await conn.send(encodeOSC("/next", []));
+            await done.promise;
+            assertEquals(received, ["/next"]);
+            assertEquals(errors.length, 1);
+            assertEquals((errors[0][0] as Error).message, "handler");
+            assertEquals(errors[0][1]?.startsWith("127.0.0.1:"), true);
+        } finally {
+            conn.close();
+            listener.close();
+        }
+    });
+}
@@ -0,0 +1,354 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createOSCFraming, DEFAULT_MAX_PACKET_SIZE } from "./framing.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+/**
+ * `udp://host:port` (one packet per datagram) or `tcp://host:port` (SLIP framing, like {@link TCPOSCAdapter})
+ */
+export interface OSCEndpoint {
+    transport: "udp" | "tcp";
+    hostname: string;
+    port: number;
+}
+
+/**
+ * The remote side of a connection or a client of a listening endpoint
+ */
+export interface OSCEndpointPeer {
+    /**
+     * `host:port`
+     */
+    readonly name: string;
+    send(packet: Uint8Array): Promise<void>;
+}
+
+export interface OSCEndpointConnection extends OSCEndpointPeer {
+    close(): void;
+}
+
+export interface OSCEndpointHandler {
+    on_packet(packet: Uint8Array, peer: OSCEndpointPeer): void;
+    /**
+     * Called when a TCP client disconnects (UDP peers are never closed)
+     */
+    on_close?(peer: OSCEndpointPeer): void;
+    /**
+     * Called with exceptions thrown by `on_packet`, oversized packets and socket errors (`peer` is `null` if the
+     * listening socket failed, it is closed then). Errors are ignored if not set.
+     */
+    on_error?(error: unknown, peer: OSCEndpointPeer | null): void;
+}
+
+export interface OSCEndpointListener {
+    readonly local_addr: Deno.NetAddr;
+    close(): void;
+}
+
+/**
+ * Parses `udp://host:port` or `tcp://host:port`
+ */
+export function parseOSCEndpoint(url: string): OSCEndpoint {
+    let parsed: URL | null = null;
+    try {
+        parsed = new URL(url);
+    } catch {
+        // handled below
+    }
+    const transport = parsed?.protocol.slice(0, -1);
+    if (
+        !parsed || (transport !== "udp" && transport !== "tcp") ||
+        !parsed.hostname || !parsed.port
+    ) {
+        throw new OSCProtocolError({
+            message:
+                `invalid endpoint '${url}' (expected udp://host:port or tcp://host:port)`,
+        });
+    }
+    return {
+        transport,
+        // IPv6 addresses are enclosed in brackets
+        hostname: parsed.hostname.replace(/^\[(.*)\]$/, "$1"),
+        port: Number(parsed.port),
+    };
+}
+
+/**
+ * Connects to an endpoint. For UDP a socket bound to a random local port is used.
+ * `on_error` receives exceptions thrown by `on_packet`, oversized packets and socket errors (ignored if not set).
+ */
+export async function connectOSCEndpoint(
+    endpoint: OSCEndpoint,
+    on_packet: (packet: Uint8Array) => void,
+    on_error: (error: unknown) => void = () => {},
+): Promise<OSCEndpointConnection> {
+    const name = `${endpoint.hostname}:${endpoint.port}`;
+    if (endpoint.transport === "udp") {
+        const socket = Deno.listenDatagram({
+            transport: "udp",
+            hostname: localHostname(endpoint.hostname),
+            port: 0,
+        });
+        const closed = recvDatagrams(
+            socket,
+            (data) => on_packet(data),
+            on_error,
+        );
+        return {
+            name,
+            async send(packet) {
+                await socket.send(packet, {
+                    transport: "udp",
+                    hostname: endpoint.hostname,
+                    port: endpoint.port,
+                });
+            },
+            close() {
+                closed.value = true;
+                socket.close();
+            },
+        };
+    }
+
+    const conn = await Deno.connect({
+        hostname: endpoint.hostname,
+        port: endpoint.port,
+    });
+    const framing = createOSCFraming();
+    const closed = recvStream(conn, on_packet, on_error, () => {});
+    return {
+        name,
+        send: (packet) => writeAll(conn, framing.encode(packet)),
+        close() {
+            if (!closed.value) {
+                closed.value = true;
+                conn.close();
+            }
+        },
+    };
+}
+
+/**
+ * Listens on an endpoint. Every UDP sender or TCP client is represented by a peer object that can be used to reply.
+ */
+export function listenOSCEndpoint(
+    endpoint: OSCEndpoint,
+    handler: OSCEndpointHandler,
+): OSCEndpointListener {
+    if (endpoint.transport === "udp") {
+        const socket = Deno.listenDatagram({
+            transport: "udp",
+            hostname: endpoint.hostname,
+            port: endpoint.port,
+        });
+        // the same peer object for every datagram from the same sender
+        const peers = new Map<string, OSCEndpointPeer>();
+        const closed = recvDatagrams(socket, (data, source) => {
+            const name = `${source.hostname}:${source.port}`;
+            let peer = peers.get(name);
+            if (!peer) {
+                peer = {
+                    name,
+                    async send(packet) {
+                        await socket.send(packet, source);
+                    },
+                };
+                peers.set(name, peer);
+            }
+            try {
+                handler.on_packet(data, peer);
+            } catch (e) {
+                handler.on_error?.(e, peer);
+            }
+        }, (error) => handler.on_error?.(error, null));
+        return {
+            local_addr: socket.addr as Deno.NetAddr,
+            close() {
+                closed.value = true;
+                socket.close();
+            },
+        };
+    }
+
+    const listener = Deno.listen({
+        hostname: endpoint.hostname,
+        port: endpoint.port,
+    });
+    // open connections and their `closed` flags
+    const conns = new Map<Deno.Conn, { value: boolean }>();
+    let listener_closed = false;
+    const close = () => {
+        listener_closed = true;
+        listener.close();
+        for (const [conn, closed] of conns) {
+            closed.value = true;
+            conn.close();
+        }
+        conns.clear();
+    };
+    (async () => {
+        while (true) {
+            let conn;
+            try {
+                conn = await listener.accept();
+            } catch (e) {
+                // closing the listener interrupts the pending accept
+                if (!listener_closed) {
+                    close();
+                    handler.on_error?.(e, null);
+                }
+                return;
+            }
+            const remote = conn.remoteAddr as Deno.NetAddr;
+            const framing = createOSCFraming();
+            const peer: OSCEndpointPeer = {
+                name: `${remote.hostname}:${remote.port}`,
+                send: (packet) => writeAll(conn, framing.encode(packet)),
+            };
+            conns.set(
+                conn,
+                recvStream(
+                    conn,
+                    (packet) => handler.on_packet(packet, peer),
+                    (error) => handler.on_error?.(error, peer),
+                    () => {
+                        conns.delete(conn);
+                        handler.on_close?.(peer);
+                    },
+                ),
+            );
+        }
+    })();
+    return {
+        local_addr: listener.addr,
+        close,
+    };
+}
+
+/**
+ * Local address for a UDP socket talking to the given host: loopback targets are reached from the loopback
+ * interface, everything else from all interfaces
+ */
+function localHostname(target: string): string {
+    if (target === "localhost" || target.startsWith("127.")) {
+        return "127.0.0.1";
+    }
+    if (target === "::1") {
+        return "::1";
+    }
+    return target.includes(":") ? "::" : "0.0.0.0";
+}
+
+/**
+ * Receive loop for a datagram socket. Set `.value` of the returned object before closing the socket.
+ * If the socket fails, it is closed and the error is passed to `on_error`.
+ */
+function recvDatagrams(
+    socket: Deno.DatagramConn,
+    on_datagram: (data: Uint8Array, source: Deno.NetAddr) => void,
+    on_error: (error: unknown) => void,
+): { value: boolean } {
+    const closed = { value: false };
+    (async () => {
+        while (true) {
+            let data, source;
+            try {
+                [data, source] = await socket.receive();
+            } catch (e) {
+                // closing the socket interrupts the pending receive
+                if (!closed.value) {
+                    closed.value = true;
+                    socket.close();
+                    on_error(e);
+                }
+                return;
+            }
+            try {
+                on_datagram(data, source as Deno.NetAddr);
+            } catch (e) {
+                on_error(e);
+            }
+        }
+    })();
+    return closed;
+}
+
+/**
+ * Receive loop for a SLIP framed stream. `on_close` is called when the stream ends or fails.
+ * Set `.value` of the returned object before closing the connection.
+ */
+function recvStream(
+    conn: Deno.Conn,
+    on_packet: (packet: Uint8Array) => void,
+    on_error: (error: unknown) => void,
+    on_close: () => void,
+): { value: boolean } {
+    const closed = { value: false };
+    const framing = createOSCFraming(
+        "slip",
+        DEFAULT_MAX_PACKET_SIZE,
+        (size) =>
+            on_error(
+                new OSCProtocolError({
+                    message:
+                        `packet size ${size} exceeds max_packet_size ${DEFAULT_MAX_PACKET_SIZE}`,
+                }),
+            ),
+    );
+    (async () => {
+        const buffer = new Uint8Array(65536);
+        while (true) {
+            let n;
+            try {
+                n = await conn.read(buffer);
+            } catch (e) {
+                // closing the connection locally interrupts the pending read
+                if (!closed.value) {
+                    on_error(e);
+                }
+                break;
+            }
+            if (n === null) {
+                break;
+            }
+            for (const packet of framing.decode(buffer.subarray(0, n))) {
+                try {
+                    on_packet(packet);
+                } catch (e) {
+                    on_error(e);
+                }
+            }
+        }
+        if (!closed.value) {
+            closed.value = true;
+            conn.close();
+        }
+        on_close();
+    })();
+    return closed;
+}
+
+async function writeAll(conn: Deno.Conn, data: Uint8Array): Promise<void> {
+    let written = 0;
+    while (written < data.length) {
+        written += await conn.write(data.subarray(written));
+    }
+}
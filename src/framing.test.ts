@@ -0,0 +1,107 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { encodeSizePrefixed, OSCSizePrefixDecoder } from "./framing.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+const a = new Uint8Array([1, 2, 3, 4]);
+const b = new Uint8Array([5, 6, 7, 8, 9, 10, 11, 12]);
+
+function concat(...chunks: Uint8Array[]) {
+    return new Uint8Array(chunks.flatMap(($) => [...$]));
+}
+
+Deno.test("size-prefix encode", () => {
+    assertEquals(
+        encodeSizePrefixed(a),
+        new Uint8Array([0, 0, 0, 4, 1, 2, 3, 4]),
+    );
+});
+
+Deno.test("size-prefix decode multiple packets per chunk", () => {
+    const decoder = new OSCSizePrefixDecoder();
+    assertEquals(
+        decoder.decode(concat(encodeSizePrefixed(a), encodeSizePrefixed(b))),
+        [a, b],
+    );
+});
+
+Deno.test("size-prefix decode split packets", () => {
+    const stream = concat(encodeSizePrefixed(a), encodeSizePrefixed(b));
+    // every possible split point, including splits inside the size prefix
+    for (let split = 0; split <= stream.length; split++) {
+        const decoder = new OSCSizePrefixDecoder();
+        assertEquals(
+            [
+                ...decoder.decode(stream.subarray(0, split)),
+                ...decoder.decode(stream.subarray(split)),
+            ],
+            [a, b],
+        );
+    }
+
+    // byte by byte
+    const decoder = new OSCSizePrefixDecoder();
+    const packets = [];
+    for (const byte of stream) {
+        packets.push(...decoder.decode(new Uint8Array([byte])));
+    }
+    assertEquals(packets, [a, b]);
+});
+
+Deno.test("size-prefix decode max packet size", () => {
+    const decoder = new OSCSizePrefixDecoder(4);
+    assertEquals(decoder.decode(encodeSizePrefixed(a)), [a]);
+    assertThrows(
+        () => decoder.decode(encodeSizePrefixed(b)),
+        OSCProtocolError,
+    );
+    assertThrows(
+        () => decoder.decode(new Uint8Array([0xff, 0xff, 0xff, 0xff])),
+        OSCProtocolError,
+    );
+    // recovers after the invalid data was discarded
+    assertEquals(decoder.decode(encodeSizePrefixed(a)), [a]);
+});
+
+Deno.test("size-prefix decode skip oversized", () => {
+    const oversized: number[] = [];
+    const stream = concat(
+        encodeSizePrefixed(a),
+        encodeSizePrefixed(b),
+        encodeSizePrefixed(a),
+    );
+    for (let split = 0; split <= stream.length; split++) {
+        oversized.length = 0;
+        const decoder = new OSCSizePrefixDecoder(
+            4,
+            (size) => oversized.push(size),
+        );
+        assertEquals(
+            [
+                ...decoder.decode(stream.subarray(0, split)),
+                ...decoder.decode(stream.subarray(split)),
+            ],
+            [a, a],
+        );
+        assertEquals(oversized, [8]);
+    }
+});
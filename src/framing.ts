@@ -0,0 +1,175 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { encodeSLIP, SLIPDecoder } from "@deno-plc/slip";
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+/**
+ * Default for {@link OSCSizePrefixDecoder.max_packet_size}
+ */
+export const DEFAULT_MAX_PACKET_SIZE = 65536;
+
+/**
+ * Prefixes an OSC packet with its size (big-endian int32) as used by the OSC 1.0 stream transport
+ */
+export function encodeSizePrefixed(packet: Uint8Array): Uint8Array {
+    const frame = new Uint8Array(packet.length + 4);
+    new DataView(frame.buffer).setInt32(0, packet.length, false);
+    frame.set(packet, 4);
+    return frame;
+}
+
+/**
+ * Incremental decoder for size-prefixed packets (OSC 1.0 stream transport).
+ * Packets might be split across multiple chunks and a chunk might contain multiple packets.
+ */
+export class OSCSizePrefixDecoder {
+    constructor(
+        /**
+         * Packets announcing a larger size are rejected
+         */
+        readonly max_packet_size: number = DEFAULT_MAX_PACKET_SIZE,
+        /**
+         * If set, packets announcing a size larger than `max_packet_size` are skipped and reported here instead of throwing
+         */
+        on_oversize?: (size: number) => void,
+    ) {
+        this.#on_oversize = on_oversize ?? null;
+    }
+
+    readonly #on_oversize: ((size: number) => void) | null;
+    #carry: Uint8Array = new Uint8Array(0);
+    /**
+     * Remaining bytes of a skipped packet
+     */
+    #skip = 0;
+
+    /**
+     * Feeds a chunk of the stream into the decoder and returns all packets completed by it.
+     * Throws {@link OSCProtocolError} if a packet announces an invalid size. The stream cannot be resynchronized after that,
+     * buffered data is discarded.
+     */
+    decode(data: Uint8Array): Uint8Array[] {
+        if (this.#skip > 0) {
+            const skipped = Math.min(this.#skip, data.length);
+            this.#skip -= skipped;
+            data = data.subarray(skipped);
+        }
+        let buf = data;
+        if (this.#carry.length > 0) {
+            buf = new Uint8Array(this.#carry.length + data.length);
+            buf.set(this.#carry, 0);
+            buf.set(data, this.#carry.length);
+        }
+        const dv = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+        const packets: Uint8Array[] = [];
+
+        let offset = 0;
+        while (buf.length - offset >= 4) {
+            const size = dv.getInt32(offset, false);
+            if (size > this.max_packet_size && this.#on_oversize) {
+                this.#on_oversize(size);
+                const available = buf.length - offset - 4;
+                if (available < size) {
+                    // the rest of the packet is discarded as it arrives
+                    this.#skip = size - available;
+                    offset = buf.length;
+                    break;
+                }
+                offset += 4 + size;
+                continue;
+            }
+            if (size <= 0 || size > this.max_packet_size) {
+                this.#carry = new Uint8Array(0);
+                throw new OSCProtocolError({
+                    message:
+                        `invalid packet size ${size} (max: ${this.max_packet_size})`,
+                    packet: buf,
+                });
+            }
+            if (buf.length - offset - 4 < size) {
+                break;
+            }
+            packets.push(buf.slice(offset + 4, offset + 4 + size));
+            offset += 4 + size;
+        }
+
+        this.#carry = buf.slice(offset);
+        return packets;
+    }
+}
+
+/**
+ * - `slip`: SLIP encoded packets (OSC 1.1)
+ * - `size-prefix`: every packet is prefixed with its size as big-endian int32 (OSC 1.0)
+ */
+export type OSCFramingType = "slip" | "size-prefix";
+
+/**
+ * Splits a byte stream into packets and vice versa, see {@link createOSCFraming}
+ */
+export interface OSCFraming {
+    /**
+     * Feeds a chunk of the stream into the decoder and returns all packets completed by it
+     */
+    decode(data: Uint8Array): Uint8Array[];
+    encode(packet: Uint8Array): Uint8Array;
+}
+
+/**
+ * Creates the framing of a stream transport (default: SLIP).
+ * Packets larger than `max_packet_size` are reported to `on_oversize` and skipped, without it
+ * {@link OSCProtocolError} is thrown.
+ */
+export function createOSCFraming(
+    type: OSCFramingType = "slip",
+    max_packet_size: number = DEFAULT_MAX_PACKET_SIZE,
+    on_oversize?: (size: number) => void,
+): OSCFraming {
+    if (type === "size-prefix") {
+        const decoder = new OSCSizePrefixDecoder(max_packet_size, on_oversize);
+        return {
+            decode: (data) => decoder.decode(data),
+            encode: encodeSizePrefixed,
+        };
+    }
+    const decoder = new SLIPDecoder();
+    decoder.max_carry_oversize = 200;
+    return {
+        decode(data) {
+            const packets: Uint8Array[] = [];
+            for (const packet of decoder.decode(data)) {
+                if (packet.length <= max_packet_size) {
+                    packets.push(packet);
+                } else if (on_oversize) {
+                    on_oversize(packet.length);
+                } else {
+                    throw new OSCProtocolError({
+                        message:
+                            `invalid packet size ${packet.length} (max: ${max_packet_size})`,
+                        packet,
+                    });
+                }
+            }
+            return packets;
+        },
+        encode: encodeSLIP,
+    };
+}
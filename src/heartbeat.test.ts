@@ -0,0 +1,79 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals } from "@std/assert";
+import { type OSCConnectionState, OSCHeartbeat } from "./heartbeat.ts";
+import { OSCManualClock } from "./clock.ts";
+import { encodeOSC } from "./oscProtocol.ts";
+
+Deno.test("heartbeat states", () => {
+    const clock = new OSCManualClock();
+    const sent: Uint8Array[] = [];
+    const states: OSCConnectionState[] = [];
+    let reconnects = 0;
+    const heartbeat = new OSCHeartbeat((packet) => sent.push(packet), {
+        ping: "/ping",
+        ping_args: [1],
+        interval: 100,
+        timeout: 300,
+        dead_timeout: 500,
+        on_state: (state) => states.push(state),
+        reconnect: () => reconnects++,
+        clock,
+    });
+
+    clock.advance(100);
+    assertEquals(sent, [encodeOSC("/ping", [1])]);
+    assertEquals(heartbeat.recv("/ping"), true);
+    assertEquals(heartbeat.recv("/other"), false);
+
+    clock.advance(300);
+    assertEquals(heartbeat.state, "stale");
+    clock.advance(200);
+    assertEquals(heartbeat.state, "dead");
+    assertEquals(reconnects, 1);
+    clock.advance(1000);
+    assertEquals(reconnects, 1);
+
+    heartbeat.recv("/ping");
+    assertEquals(heartbeat.state, "connected");
+    assertEquals(heartbeat.last_seen, 1600);
+    assertEquals(states, ["stale", "dead", "connected"]);
+
+    heartbeat.stop();
+    assertEquals(clock.pending, 0);
+});
+
+Deno.test("heartbeat any traffic", () => {
+    const clock = new OSCManualClock();
+    const heartbeat = new OSCHeartbeat(() => {}, {
+        ping: "/xremote",
+        reply: null,
+        timeout: 1500,
+        clock,
+    });
+    clock.advance(1000);
+    assertEquals(heartbeat.recv("/ch/01/mix/fader"), false);
+    clock.advance(1000);
+    assertEquals(heartbeat.state, "connected");
+    clock.advance(1000);
+    assertEquals(heartbeat.state, "stale");
+    heartbeat.stop();
+});
@@ -0,0 +1,191 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_SYSTEM_CLOCK, type OSCClock } from "./clock.ts";
+import { OSCAddressPattern } from "./oscPattern.ts";
+import { encodeOSC, type OSCEncodableArgs } from "./oscProtocol.ts";
+
+/**
+ * - `connected`: the peer responded within `timeout`
+ * - `stale`: no response for `timeout` milliseconds
+ * - `dead`: no response for `dead_timeout` milliseconds
+ */
+export type OSCConnectionState = "connected" | "stale" | "dead";
+
+export interface OSCHeartbeatOptions {
+    /**
+     * Address of the ping message (default: `/ping`)
+     */
+    ping?: string;
+    /**
+     * Arguments of the ping message (default: none)
+     */
+    ping_args?: OSCEncodableArgs;
+    /**
+     * Address pattern of the reply (default: same as `ping`). Replies are not passed to `on_packet`.
+     * `null`: do not expect a reply, any received message counts.
+     */
+    reply?: string | null;
+    /**
+     * Milliseconds between two pings (default: 1000). The state is checked at the same interval.
+     */
+    interval?: number;
+    /**
+     * The connection is `stale` after this many milliseconds without response (default: 3000)
+     */
+    timeout?: number;
+    /**
+     * The connection is `dead` after this many milliseconds without response (default: 10000)
+     */
+    dead_timeout?: number;
+    /**
+     * Called on every state change
+     */
+    on_state?: (
+        state: OSCConnectionState,
+        previous: OSCConnectionState,
+    ) => void;
+    /**
+     * Called once the connection is `dead`, e.g. to make the transport reconnect
+     */
+    reconnect?: () => void;
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+/**
+ * Sends a ping at a fixed interval and tracks the responses of the peer.
+ * Used by {@link TCPOSCAdapter} if the `heartbeat` option is set, but works with any transport:
+ *
+ * ```ts
+ * const heartbeat = new OSCHeartbeat((packet) => session.send_packet(packet), {
+ *     ping: "/xremote",
+ *     reply: null,
+ *     on_state: (state) => console.log(state),
+ * });
+ * // for every received message
+ * heartbeat.recv(addr);
+ * ```
+ */
+export class OSCHeartbeat {
+    constructor(
+        send: (packet: Uint8Array) => void,
+        options: OSCHeartbeatOptions = {},
+    ) {
+        const ping = options.ping ?? "/ping";
+        this.#send = send;
+        this.#ping = encodeOSC(ping, options.ping_args ?? []);
+        const reply = options.reply === undefined ? ping : options.reply;
+        this.#reply = reply === null ? null : new OSCAddressPattern(reply);
+        this.#interval = options.interval ?? 1000;
+        this.#timeout = options.timeout ?? 3000;
+        this.#dead_timeout = options.dead_timeout ?? 10000;
+        this.#on_state = options.on_state ?? null;
+        this.#reconnect = options.reconnect ?? null;
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+        this.#last_seen = this.#clock.now();
+        this.#cancel_timer = this.#clock.schedule(
+            () => this.#tick(),
+            this.#interval,
+        );
+    }
+    readonly #send: (packet: Uint8Array) => void;
+    readonly #ping: Uint8Array;
+    readonly #reply: OSCAddressPattern | null;
+    readonly #interval: number;
+    readonly #timeout: number;
+    readonly #dead_timeout: number;
+    readonly #on_state:
+        | ((state: OSCConnectionState, previous: OSCConnectionState) => void)
+        | null;
+    readonly #reconnect: (() => void) | null;
+    readonly #clock: OSCClock;
+    #last_seen: number;
+    #state: OSCConnectionState = "connected";
+    #cancel_timer: (() => void) | null;
+    #stopped = false;
+
+    get state(): OSCConnectionState {
+        return this.#state;
+    }
+
+    /**
+     * Time of the last response (see {@link OSCClock.now})
+     */
+    get last_seen(): number {
+        return this.#last_seen;
+    }
+
+    /**
+     * Has to be called for every received message. Returns `true` if the message is the reply to the ping
+     * (it should not be processed any further).
+     */
+    recv(addr: string): boolean {
+        if (this.#reply && !this.#reply.match(addr)) {
+            return false;
+        }
+        this.#last_seen = this.#clock.now();
+        this.#set_state("connected");
+        return this.#reply !== null;
+    }
+
+    /**
+     * Stops sending pings
+     */
+    stop(): void {
+        this.#stopped = true;
+        this.#cancel_timer?.();
+        this.#cancel_timer = null;
+    }
+
+    #tick() {
+        this.#cancel_timer = this.#clock.schedule(
+            () => this.#tick(),
+            this.#interval,
+        );
+        const silence = this.#clock.now() - this.#last_seen;
+        if (silence >= this.#dead_timeout) {
+            if (this.#set_state("dead")) {
+                this.#reconnect?.();
+            }
+        } else if (silence >= this.#timeout) {
+            this.#set_state("stale");
+        }
+        // might have been stopped by a callback
+        if (!this.#stopped) {
+            this.#send(this.#ping);
+        }
+    }
+
+    /**
+     * Returns `true` if the state changed
+     */
+    #set_state(state: OSCConnectionState): boolean {
+        const previous = this.#state;
+        if (state === previous) {
+            return false;
+        }
+        this.#state = state;
+        this.#on_state?.(state, previous);
+        return true;
+    }
+}
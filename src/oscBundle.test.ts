@@ -0,0 +1,103 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+    decodeOSCPacket,
+    encodeOSCBundle,
+    isOSCBundlePacket,
+    OSC_TIMETAG_IMMEDIATELY,
+    type OSCBundle,
+    unpackOSCBundle,
+} from "./oscBundle.ts";
+import { encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import {
+    decodeOSCPacketSlow,
+    encodeOSCBundleSlow,
+} from "./oscProtocol.slow.ts";
+
+const testBundles: OSCBundle[] = [
+    { timetag: OSC_TIMETAG_IMMEDIATELY, elements: [] },
+    {
+        timetag: 0xe9a1b2c3_12345678n,
+        elements: [
+            { addr: "/foo/bar/1", args: [] },
+            { addr: "/foo/bar/2", args: ["baz", 123, true] },
+        ],
+    },
+    {
+        timetag: 0xffffffff_ffffffffn,
+        elements: [
+            { addr: "/foo", args: [2.5, new Uint8Array([1, 2, 3])] },
+            {
+                timetag: OSC_TIMETAG_IMMEDIATELY,
+                elements: [
+                    { addr: "/nested/1", args: [false] },
+                    { timetag: 42n, elements: [{ addr: "/deep", args: [] }] },
+                ],
+            },
+            { addr: "/bar", args: ["after nested"] },
+        ],
+    },
+];
+
+Deno.test("bundle encode equals", () => {
+    for (const bundle of testBundles) {
+        assertEquals(encodeOSCBundle(bundle), encodeOSCBundleSlow(bundle));
+    }
+});
+
+Deno.test("bundle decode equals", () => {
+    for (const bundle of testBundles) {
+        const packet = encodeOSCBundleSlow(bundle);
+        assertEquals(decodeOSCPacket(packet), decodeOSCPacketSlow(packet));
+    }
+});
+
+Deno.test("bundle encode/decode equals", () => {
+    for (const bundle of testBundles) {
+        const packet = encodeOSCBundle(bundle);
+        assert(isOSCBundlePacket(packet));
+        assertEquals(decodeOSCPacket(packet), bundle);
+    }
+});
+
+Deno.test("bundle decode message", () => {
+    const packet = encodeOSC("/foo/bar", [1, "baz"]);
+    assert(!isOSCBundlePacket(packet));
+    assertEquals(decodeOSCPacket(packet), {
+        addr: "/foo/bar",
+        args: [1, "baz"],
+    });
+});
+
+Deno.test("bundle unpack", () => {
+    assertEquals(
+        [...unpackOSCBundle(testBundles[2])].map(({ addr }) => addr),
+        ["/foo", "/nested/1", "/deep", "/bar"],
+    );
+});
+
+Deno.test("bundle invalid element size", () => {
+    const packet = encodeOSCBundle(testBundles[1]);
+    new DataView(packet.buffer).setInt32(16, 1000, false);
+    assertThrows(() => decodeOSCPacket(packet), OSCProtocolError);
+    assertThrows(() => decodeOSCPacketSlow(packet), OSCProtocolError);
+});
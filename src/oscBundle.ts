@@ -0,0 +1,212 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    decodeOSC,
+    encodeOSC,
+    type OSCArgs,
+    type OSCDecoderOptions,
+    type OSCEncoderOptions,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+
+/**
+ * 64-bit NTP timestamp (upper 32 bits: seconds since 1900-01-01, lower 32 bits: fraction of a second)
+ */
+export type OSCTimetag = bigint;
+
+/**
+ * Special timetag value: the bundle should be processed immediately
+ */
+export const OSC_TIMETAG_IMMEDIATELY: OSCTimetag = 1n;
+
+/**
+ * A single OSC message
+ */
+export interface OSCMessage {
+    addr: string;
+    args: OSCArgs;
+}
+
+/**
+ * An OSC bundle. Elements can be messages or nested bundles.
+ */
+export interface OSCBundle {
+    timetag: OSCTimetag;
+    elements: readonly OSCPacket[];
+}
+
+/**
+ * Either a message or a bundle
+ */
+export type OSCPacket = OSCMessage | OSCBundle;
+
+/**
+ * `#bundle\0`
+ */
+const BUNDLE_HEADER = new Uint8Array([35, 98, 117, 110, 100, 108, 101, 0]);
+
+/**
+ * Type guard to distinguish bundles from messages
+ */
+export function isOSCBundle(packet: OSCPacket): packet is OSCBundle {
+    return "elements" in packet;
+}
+
+/**
+ * Checks if the raw packet starts with `#bundle\0`
+ */
+export function isOSCBundlePacket(data: Uint8Array): boolean {
+    if (data.length < BUNDLE_HEADER.length) {
+        return false;
+    }
+    for (let i = 0; i < BUNDLE_HEADER.length; i++) {
+        if (data[i] !== BUNDLE_HEADER[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Generate an OSC bundle. Might throw {@link OSCProtocolError} if the supplied data is invalid.
+ */
+export function encodeOSCBundle(
+    bundle: OSCBundle,
+    options?: OSCEncoderOptions,
+): Uint8Array {
+    return assembleOSCBundle(
+        bundle.timetag,
+        bundle.elements.map((element) => encodeOSCPacket(element, options)),
+    );
+}
+
+/**
+ * Generate an OSC bundle from already encoded messages or bundles (e.g. from {@link compileOSCTemplate})
+ */
+export function assembleOSCBundle(
+    timetag: OSCTimetag,
+    elements: readonly Uint8Array[],
+): Uint8Array {
+    const packet = new Uint8Array(
+        elements.reduce((size, element) => size + element.length + 4, 16),
+    );
+    const dv = new DataView(packet.buffer);
+
+    packet.set(BUNDLE_HEADER, 0);
+    dv.setBigUint64(8, BigInt.asUintN(64, timetag), false);
+
+    let offset = 16;
+    for (const element of elements) {
+        dv.setInt32(offset, element.length, false);
+        offset += 4;
+        packet.set(element, offset);
+        offset += element.length;
+    }
+
+    return packet;
+}
+
+/**
+ * Generate an OSC message or bundle. Might throw {@link OSCProtocolError} if the supplied data is invalid.
+ */
+export function encodeOSCPacket(
+    packet: OSCPacket,
+    options?: OSCEncoderOptions,
+): Uint8Array {
+    if (isOSCBundle(packet)) {
+        return encodeOSCBundle(packet, options);
+    } else {
+        return encodeOSC(packet.addr, packet.args, options);
+    }
+}
+
+/**
+ * Parses an OSC message or bundle (including nested bundles). Might throw {@link OSCProtocolError} if the supplied data is invalid
+ */
+export function decodeOSCPacket(
+    data: Uint8Array,
+    options?: OSCDecoderOptions,
+): OSCPacket {
+    if (!isOSCBundlePacket(data)) {
+        const [addr, args] = decodeOSC(data, options);
+        return { addr, args };
+    }
+
+    const { timetag, elements } = splitOSCBundle(data);
+    return {
+        timetag,
+        elements: elements.map((element) => decodeOSCPacket(element, options)),
+    };
+}
+
+/**
+ * Splits a bundle packet into its timetag and the raw (undecoded) elements. Might throw {@link OSCProtocolError} if the supplied data is invalid
+ */
+export function splitOSCBundle(
+    data: Uint8Array,
+): { timetag: OSCTimetag; elements: Uint8Array[] } {
+    if (data.length % 4 !== 0) {
+        throw new OSCProtocolError({
+            message: `data.length % 4 !== 0`,
+            packet: data,
+        });
+    }
+    if (data.length < 16) {
+        throw new OSCProtocolError({
+            message: `Bundle too short (length < 16)`,
+            packet: data,
+        });
+    }
+
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const timetag = dv.getBigUint64(8, false);
+    const elements: Uint8Array[] = [];
+
+    let offset = 16;
+    while (offset < data.length) {
+        const size = dv.getInt32(offset, false);
+        offset += 4;
+        if (size <= 0 || size % 4 !== 0 || offset + size > data.length) {
+            throw new OSCProtocolError({
+                message: `invalid bundle element size ${size}`,
+                packet: data,
+                offset: offset - 4,
+            });
+        }
+        elements.push(data.subarray(offset, offset + size));
+        offset += size;
+    }
+
+    return { timetag, elements };
+}
+
+/**
+ * Flattens a packet into its messages (depth-first, in order of appearance)
+ */
+export function* unpackOSCBundle(packet: OSCPacket): Generator<OSCMessage> {
+    if (isOSCBundle(packet)) {
+        for (const element of packet.elements) {
+            yield* unpackOSCBundle(element);
+        }
+    } else {
+        yield packet;
+    }
+}
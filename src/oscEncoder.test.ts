@@ -0,0 +1,93 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { encodeOSCInto, OSCEncoder, utf8Length } from "./oscEncoder.ts";
+import {
+    encodeOSC_UTF8,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import { osc } from "./oscTypes.ts";
+
+const testPackets: [addr: string, args: OSCEncodableArgs][] = [
+    ["/foo/bar/1", []],
+    ["/foo/bar/2", ["baz", 123, true, 2.5]],
+    ["/foo/bär", ["bäz", "😀", new Uint8Array([1, 2, 3, 4, 5])]],
+    ["/foo/typed", [osc.float(1), [osc.int64(5n), "x"], null]],
+];
+
+Deno.test("utf8Length", () => {
+    const te = new TextEncoder();
+    for (const str of ["", "foo", "bär", "€", "😀", "a\ud800b", "\udc00"]) {
+        assertEquals(utf8Length(str), te.encode(str).length, str);
+    }
+});
+
+Deno.test("encoder equals", () => {
+    const encoder = new OSCEncoder();
+    const encoder_f64 = new OSCEncoder({ f64: true });
+    // twice: the second round reuses dirty scratch buffers
+    for (let round = 0; round < 2; round++) {
+        for (const [addr, args] of testPackets) {
+            assertEquals(
+                encoder.encode(addr, args),
+                encodeOSC_UTF8(addr, args),
+            );
+            assertEquals(
+                encoder_f64.encode(addr, args),
+                encodeOSC_UTF8(addr, args, { f64: true }),
+            );
+        }
+    }
+});
+
+Deno.test("encoder grows buffer", () => {
+    const encoder = new OSCEncoder();
+    const args = ["x".repeat(1000)];
+    assertEquals(encoder.encode("/foo", args), encodeOSC_UTF8("/foo", args));
+});
+
+Deno.test("encodeOSCInto", () => {
+    for (const [addr, args] of testPackets) {
+        const expected = encodeOSC_UTF8(addr, args);
+        const buffer = new Uint8Array(expected.length + 10).fill(0xff);
+        assertEquals(encodeOSCInto(buffer, 3, addr, args), expected.length);
+        assertEquals(buffer.subarray(3, 3 + expected.length), expected);
+        // untouched
+        assertEquals(buffer.subarray(0, 3), new Uint8Array(3).fill(0xff));
+        assertEquals(
+            buffer.subarray(3 + expected.length),
+            new Uint8Array(7).fill(0xff),
+        );
+    }
+});
+
+Deno.test("encodeOSCInto buffer too small", () => {
+    const expected = encodeOSC_UTF8("/foo", ["baz"]);
+    const buffer = new Uint8Array(expected.length);
+    assertThrows(
+        () => encodeOSCInto(buffer, 4, "/foo", ["baz"]),
+        OSCProtocolError,
+    );
+    // nothing written
+    assertEquals(buffer, new Uint8Array(expected.length));
+    assertEquals(encodeOSCInto(buffer, 0, "/foo", ["baz"]), expected.length);
+});
@@ -0,0 +1,190 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ASCII } from "./ascii.ts";
+import {
+    align4,
+    measureArgs,
+    type OSCEncodableArgs,
+    type OSCEncoderOptions,
+    OSCProtocolError,
+    writeArgs,
+} from "./oscProtocol.ts";
+
+/**
+ * Reusable encoder that keeps its scratch buffers between calls. Handles UTF-8 multibyte characters.
+ *
+ * ```ts
+ * const encoder = new OSCEncoder();
+ * socket.write(encoder.encode("/ch/01/mix/fader", [0.5]));
+ * ```
+ */
+export class OSCEncoder {
+    constructor(readonly options: Omit<OSCEncoderOptions, "oversize"> = {}) {}
+
+    readonly #te = new TextEncoder();
+    readonly #tt: ASCII[] = [];
+    readonly #values: unknown[] = [];
+
+    #buffer = new Uint8Array(256);
+
+    #target: Uint8Array = this.#buffer;
+    #target_dv: DataView = new DataView(this.#buffer.buffer);
+
+    readonly #write_str = (str: string, offset: number) =>
+        this.#te.encodeInto(str, this.#target.subarray(offset)).written;
+
+    /**
+     * Encodes a message into the internal scratch buffer. The returned view is only valid until the next call,
+     * copy it if it needs to be retained.
+     * Might throw {@link OSCProtocolError} if the supplied data is invalid.
+     */
+    encode(addr: string, args: OSCEncodableArgs = []): Uint8Array {
+        const size = this.#measure(addr, args);
+        if (size > this.#buffer.length) {
+            this.#buffer = new Uint8Array(
+                Math.max(size, this.#buffer.length * 2),
+            );
+        }
+        this.#write(this.#buffer, 0, addr, size);
+        return this.#buffer.subarray(0, size);
+    }
+
+    /**
+     * Encodes a message into `buffer` at `offset` and returns the number of bytes written.
+     * Throws {@link OSCProtocolError} (without touching the buffer) if the buffer is too small or the supplied data is invalid.
+     */
+    encodeInto(
+        buffer: Uint8Array,
+        offset: number,
+        addr: string,
+        args: OSCEncodableArgs = [],
+    ): number {
+        const size = this.#measure(addr, args);
+        if (offset < 0 || offset + size > buffer.length) {
+            throw new OSCProtocolError({
+                message: `buffer too small (${size} bytes required, ${
+                    buffer.length - offset
+                } available at offset ${offset})`,
+                addr,
+                args,
+            });
+        }
+        this.#write(buffer, offset, addr, size);
+        return size;
+    }
+
+    /**
+     * Computes the packet size. Collects the type tags and values in the scratch arrays.
+     */
+    #measure(addr: string, args: OSCEncodableArgs): number {
+        this.#tt.length = 0;
+        this.#values.length = 0;
+        const args_size = measureArgs(
+            addr,
+            args,
+            this.options,
+            this.#tt,
+            this.#values,
+            utf8Length,
+        );
+        return align4(utf8Length(addr) + 1) + align4(this.#tt.length + 2) +
+            args_size;
+    }
+
+    #write(buffer: Uint8Array, offset: number, addr: string, size: number) {
+        if (buffer !== this.#target) {
+            this.#target = buffer;
+            this.#target_dv = new DataView(
+                buffer.buffer,
+                buffer.byteOffset,
+                buffer.byteLength,
+            );
+        }
+        const tt = this.#tt;
+
+        // padding has to be zero, the buffer might contain old data
+        buffer.fill(0, offset, offset + size);
+
+        let pos = offset + align4(this.#write_str(addr, offset) + 1);
+        buffer[pos] = ASCII.COMMA;
+        for (let i = 0; i < tt.length; i++) {
+            buffer[pos + 1 + i] = tt[i];
+        }
+        pos += align4(tt.length + 2);
+
+        writeArgs(
+            buffer,
+            this.#target_dv,
+            pos,
+            tt,
+            this.#values,
+            this.#write_str,
+        );
+    }
+}
+
+const default_encoder = new OSCEncoder();
+const f64_encoder = new OSCEncoder({ f64: true });
+
+/**
+ * Encodes a message into `buffer` at `offset` and returns the number of bytes written.
+ * Throws {@link OSCProtocolError} (without touching the buffer) if the buffer is too small or the supplied data is invalid.
+ * Handles UTF-8 multibyte characters, the `oversize` option is ignored.
+ */
+export function encodeOSCInto(
+    buffer: Uint8Array,
+    offset: number,
+    addr: string,
+    args: OSCEncodableArgs = [],
+    options?: OSCEncoderOptions,
+): number {
+    return (options?.f64 ? f64_encoder : default_encoder).encodeInto(
+        buffer,
+        offset,
+        addr,
+        args,
+    );
+}
+
+/**
+ * Computes the UTF-8 encoded length of a string without encoding it (lone surrogates are replaced by U+FFFD like TextEncoder does)
+ */
+export function utf8Length(str: string): number {
+    let len = 0;
+    for (let i = 0; i < str.length; i++) {
+        const c = str.charCodeAt(i);
+        if (c < 0x80) {
+            len += 1;
+        } else if (c < 0x800) {
+            len += 2;
+        } else if (
+            (c & 0xfc00) === 0xd800 && i + 1 < str.length &&
+            (str.charCodeAt(i + 1) & 0xfc00) === 0xdc00
+        ) {
+            // surrogate pair
+            len += 4;
+            i++;
+        } else {
+            len += 3;
+        }
+    }
+    return len;
+}
@@ -0,0 +1,124 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { OSCMessageView } from "./oscMessageView.ts";
+import {
+    decodeOSC,
+    encodeOSC_UTF8,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import { osc, OSC_IMPULSE, OSCColor, OSCMIDI } from "./oscTypes.ts";
+
+const packets: [string, OSCEncodableArgs][] = [
+    ["/foo", []],
+    ["/foo/bär", ["bäz", 1, 2.5, true, false, null, OSC_IMPULSE]],
+    ["/blob", [new Uint8Array([1, 2, 3]), new Uint8Array(), 5]],
+    ["/ext", [
+        osc.double(1.5),
+        5n,
+        osc.timetag(123n),
+        osc.symbol("sym"),
+        osc.char("x"),
+        new OSCColor(1, 2, 3, 4),
+        new OSCMIDI(0, 0x90, 60, 127),
+    ]],
+    ["/array", [1, [2, ["x", new Uint8Array([4])], []], 3]],
+];
+
+Deno.test("message view equals decodeOSC", () => {
+    for (const [addr, args] of packets) {
+        const data = encodeOSC_UTF8(addr, args);
+        const [decoded_addr, decoded_args] = decodeOSC(data);
+        const view = new OSCMessageView(data);
+        assertEquals(view.address, decoded_addr);
+        assertEquals(view.argCount, decoded_args.length);
+        assertEquals(view.args(), decoded_args);
+        for (let i = decoded_args.length - 1; i >= 0; i--) {
+            assertEquals(view.arg(i), decoded_args[i]);
+        }
+    }
+});
+
+Deno.test("message view lazy", () => {
+    const data = encodeOSC_UTF8("/foo", [
+        1,
+        [2, 3],
+        new Uint8Array([1, 2, 3]),
+        "bar",
+    ]);
+    const view = new OSCMessageView(data);
+    assertEquals(view.typeTags, ",i[ii]bs");
+    assertEquals(view.argCount, 4);
+    assertEquals(view.type(1), "[");
+    assertEquals(view.type(2), "b");
+
+    // blobs are views
+    const blob = view.arg(2) as Uint8Array;
+    assertEquals(blob, new Uint8Array([1, 2, 3]));
+    assertEquals(blob.buffer, data.buffer);
+
+    assertThrows(() => view.arg(4), OSCProtocolError, "out of range");
+    assertThrows(() => view.arg(-1), OSCProtocolError, "out of range");
+});
+
+Deno.test("message view invalid", () => {
+    assertThrows(() => new OSCMessageView(new Uint8Array(4)), OSCProtocolError);
+    assertThrows(
+        () => new OSCMessageView(new TextEncoder().encode("/foo\0\0\0\0")),
+        OSCProtocolError,
+        "invalid type tag",
+    );
+
+    // the address is available even if an argument is truncated
+    const truncated = encodeOSC_UTF8("/foo", [1, 2]).subarray(0, 16);
+    const view = new OSCMessageView(truncated);
+    assertEquals(view.address, "/foo");
+    assertEquals(view.argCount, 2);
+    assertEquals(view.arg(0), 1);
+    assertThrows(
+        () => view.arg(1),
+        OSCProtocolError,
+        "argument exceeds packet",
+    );
+    assertThrows(
+        () => view.args(),
+        OSCProtocolError,
+        "argument exceeds packet",
+    );
+
+    const unknown = encodeOSC_UTF8("/foo", [1, 2]);
+    unknown[9] = "x".charCodeAt(0);
+    assertThrows(
+        () => new OSCMessageView(unknown).arg(1),
+        OSCProtocolError,
+        "unknown type tag 'x'",
+    );
+
+    // blob length close to 2^31 (padding would overflow int32)
+    const huge = encodeOSC_UTF8("/foo", [new Uint8Array(4)]);
+    new DataView(huge.buffer).setInt32(12, 0x7fffffff, false);
+    assertThrows(
+        () => new OSCMessageView(huge).arg(0),
+        OSCProtocolError,
+        "invalid blob length",
+    );
+});
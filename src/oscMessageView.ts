@@ -0,0 +1,361 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ASCII } from "./ascii.ts";
+import {
+    align4,
+    type OSCArg,
+    type OSCArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import {
+    OSC_IMPULSE,
+    OSCChar,
+    OSCColor,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+} from "./oscTypes.ts";
+
+const td = new TextDecoder();
+
+/**
+ * Fixed data size of each type (strings and blobs are variable, T, F, N, I, `[`, `]` have no data)
+ */
+const FIXED_SIZE: Partial<Record<number, number>> = {
+    [ASCII.i]: 4,
+    [ASCII.f]: 4,
+    [ASCII.d]: 8,
+    [ASCII.h]: 8,
+    [ASCII.t]: 8,
+    [ASCII.c]: 4,
+    [ASCII.r]: 4,
+    [ASCII.m]: 4,
+    [ASCII.T]: 0,
+    [ASCII.F]: 0,
+    [ASCII.N]: 0,
+    [ASCII.I]: 0,
+};
+
+/**
+ * Lazy view of an OSC message. The address and the type tags are decoded right away, arguments only when accessed.
+ * Blobs are returned as views of the underlying buffer (`subarray`) instead of copies, so the buffer must not be
+ * modified while the arguments are in use.
+ *
+ * Only the parts that are read are validated: an invalid argument throws {@link OSCProtocolError} on access.
+ *
+ * ```ts
+ * const view = new OSCMessageView(packet);
+ * if (view.address === "/ch/01/mix/fader" && view.typeTags === ",f") {
+ *     const level = view.arg(0) as number;
+ * }
+ * ```
+ */
+export class OSCMessageView {
+    constructor(readonly data: Uint8Array) {
+        if (data.length % 4 !== 0) {
+            throw new OSCProtocolError({
+                message: `data.length % 4 !== 0`,
+                packet: data,
+            });
+        }
+        if (data.length < 8) {
+            throw new OSCProtocolError({
+                message: `Packet too short (length < 8)`,
+                packet: data,
+            });
+        }
+        this.#dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+        const addr_end = this.#stringEnd(0);
+        this.address = td.decode(data.subarray(0, addr_end));
+
+        this.#tt_offset = align4(addr_end + 1);
+        if (data[this.#tt_offset] !== ASCII.COMMA) {
+            throw this.#error(`invalid type tag`, this.#tt_offset);
+        }
+        this.#tt_end = this.#stringEnd(this.#tt_offset);
+        this.typeTags = td.decode(data.subarray(this.#tt_offset, this.#tt_end));
+        this.#index_ti = this.#tt_offset + 1;
+        this.#index_offset = align4(this.#tt_end + 1);
+
+        let depth = 0;
+        let count = 0;
+        for (let ti = this.#tt_offset + 1; ti < this.#tt_end; ti++) {
+            if (data[ti] === ASCII.BRACKET_CLOSE) {
+                depth--;
+            } else {
+                if (depth === 0) {
+                    count++;
+                }
+                if (data[ti] === ASCII.BRACKET_OPEN) {
+                    depth++;
+                }
+            }
+        }
+        this.argCount = count;
+    }
+
+    readonly #dv: DataView;
+    readonly #tt_offset: number;
+    readonly #tt_end: number;
+    /**
+     * Type tag index and data offset of the top-level arguments located so far
+     */
+    readonly #index: [ti: number, offset: number][] = [];
+    /**
+     * Position of the next argument to be located
+     */
+    #index_ti: number;
+    #index_offset: number;
+
+    readonly address: string;
+    /**
+     * The raw type tag string, including the leading comma (e.g. `,ifs`)
+     */
+    readonly typeTags: string;
+    /**
+     * Number of arguments (an array counts as one argument)
+     */
+    readonly argCount: number;
+
+    /**
+     * Type tag of the argument at the given index (`[` for arrays)
+     */
+    type(index: number): string {
+        const [ti] = this.#locate(index);
+        return String.fromCharCode(this.data[ti]);
+    }
+
+    /**
+     * Decodes the argument at the given index
+     */
+    arg(index: number): OSCArg {
+        const [ti, offset] = this.#locate(index);
+        return this.#read(ti, offset)[0];
+    }
+
+    /**
+     * Decodes all arguments (same result as {@link decodeOSC}, but blobs are views)
+     */
+    args(): OSCArgs {
+        const args: OSCArg[] = [];
+        let ti = this.#tt_offset + 1;
+        let offset = align4(this.#tt_end + 1);
+        while (ti < this.#tt_end) {
+            const [value, next_ti, next_offset] = this.#read(ti, offset);
+            args.push(value);
+            ti = next_ti;
+            offset = next_offset;
+        }
+        return args;
+    }
+
+    #locate(index: number): [ti: number, offset: number] {
+        if (!Number.isInteger(index) || index < 0 || index >= this.argCount) {
+            throw this.#error(
+                `argument index ${index} out of range`,
+                this.#tt_offset,
+            );
+        }
+        // the index is only extended as far as required, so invalid data behind the argument is not touched
+        while (this.#index.length <= index) {
+            let ti = this.#index_ti;
+            let offset = this.#index_offset;
+            let depth = 0;
+            do {
+                const tag = this.data[ti];
+                if (tag === ASCII.BRACKET_OPEN) {
+                    depth++;
+                } else if (tag === ASCII.BRACKET_CLOSE) {
+                    if (depth === 0) {
+                        throw this.#error(
+                            `unexpected ']' in type tag`,
+                            ti,
+                            ti - this.#tt_offset - 1,
+                        );
+                    }
+                    depth--;
+                } else {
+                    offset += this.#size(ti, offset);
+                }
+                ti++;
+            } while (depth > 0 && ti < this.#tt_end);
+            this.#index.push([this.#index_ti, this.#index_offset]);
+            this.#index_ti = ti;
+            this.#index_offset = offset;
+        }
+        return this.#index[index];
+    }
+
+    /**
+     * Size of the data of the argument (excluding arrays), validated against the packet bounds
+     */
+    #size(ti: number, offset: number): number {
+        const tag = this.data[ti];
+        const arg_index = ti - this.#tt_offset - 1;
+        const size = FIXED_SIZE[tag];
+        if (size !== undefined) {
+            if (offset + size > this.data.length) {
+                throw this.#error(`argument exceeds packet`, offset, arg_index);
+            }
+            return size;
+        }
+        if (tag === ASCII.s || tag === ASCII.S) {
+            return align4(this.#stringEnd(offset, arg_index) + 1) - offset;
+        }
+        if (tag !== ASCII.b) {
+            throw this.#error(
+                `unknown type tag '${String.fromCharCode(tag)}'`,
+                ti,
+                arg_index,
+            );
+        }
+        if (offset + 4 > this.data.length) {
+            throw this.#error(`argument exceeds packet`, offset, arg_index);
+        }
+        const len = this.#dv.getInt32(offset, false);
+        // compared before align4, which overflows for lengths close to 2^31
+        if (
+            len < 0 || len > this.data.length - offset - 4 ||
+            offset + 4 + align4(len) > this.data.length
+        ) {
+            throw this.#error(`invalid blob length ${len}`, offset, arg_index);
+        }
+        return 4 + align4(len);
+    }
+
+    /**
+     * Decodes the argument (or array) starting at the given type tag. Returns the value and the positions of the next argument.
+     */
+    #read(
+        ti: number,
+        offset: number,
+    ): [value: OSCArg, ti: number, offset: number] {
+        const data = this.data;
+        const dv = this.#dv;
+        const tag = data[ti];
+        if (tag === ASCII.BRACKET_OPEN) {
+            const array: OSCArg[] = [];
+            ti++;
+            while (data[ti] !== ASCII.BRACKET_CLOSE) {
+                if (ti >= this.#tt_end) {
+                    throw this.#error(`missing ']' in type tag`, this.#tt_end);
+                }
+                const [value, next_ti, next_offset] = this.#read(ti, offset);
+                array.push(value);
+                ti = next_ti;
+                offset = next_offset;
+            }
+            return [array, ti + 1, offset];
+        }
+        if (tag === ASCII.BRACKET_CLOSE) {
+            throw this.#error(
+                `unexpected ']' in type tag`,
+                ti,
+                ti - this.#tt_offset - 1,
+            );
+        }
+
+        const size = this.#size(ti, offset);
+        let value: OSCArg;
+        switch (tag) {
+            case ASCII.s:
+            case ASCII.S: {
+                // size includes the terminator and the padding
+                const str = td.decode(
+                    data.subarray(offset, data.indexOf(ASCII.NULL, offset)),
+                );
+                value = tag === ASCII.s ? str : new OSCSymbol(str);
+                break;
+            }
+            case ASCII.b:
+                value = data.subarray(
+                    offset + 4,
+                    offset + 4 + dv.getInt32(offset, false),
+                );
+                break;
+            case ASCII.i:
+                value = dv.getInt32(offset, false);
+                break;
+            case ASCII.f:
+                value = dv.getFloat32(offset, false);
+                break;
+            case ASCII.d:
+                value = dv.getFloat64(offset, false);
+                break;
+            case ASCII.h:
+                value = dv.getBigInt64(offset, false);
+                break;
+            case ASCII.t:
+                value = new OSCTimetagArg(dv.getBigUint64(offset, false));
+                break;
+            case ASCII.c:
+                value = new OSCChar(String.fromCharCode(data[offset + 3]));
+                break;
+            case ASCII.r:
+                value = new OSCColor(
+                    data[offset],
+                    data[offset + 1],
+                    data[offset + 2],
+                    data[offset + 3],
+                );
+                break;
+            case ASCII.m:
+                value = new OSCMIDI(
+                    data[offset],
+                    data[offset + 1],
+                    data[offset + 2],
+                    data[offset + 3],
+                );
+                break;
+            case ASCII.T:
+                value = true;
+                break;
+            case ASCII.F:
+                value = false;
+                break;
+            case ASCII.N:
+                value = null;
+                break;
+            default:
+                value = OSC_IMPULSE;
+        }
+        return [value, ti + 1, offset + size];
+    }
+
+    #stringEnd(start: number, arg_index?: number): number {
+        const end = this.data.indexOf(ASCII.NULL, start);
+        if (end === -1) {
+            throw this.#error(`unterminated string`, start, arg_index);
+        }
+        return end;
+    }
+
+    #error(message: string, offset: number, arg_index?: number) {
+        return new OSCProtocolError({
+            message,
+            packet: this.data,
+            addr: this.address,
+            offset,
+            arg_index,
+        });
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { matchOSCAddress, OSCAddressPattern } from "./oscPattern.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+const cases: [pattern: string, addr: string, params: string[] | null][] = [
+    ["/foo/bar", "/foo/bar", []],
+    ["/foo/bar", "/foo/baz", null],
+    ["/foo/bar", "/foo/bar/baz", null],
+    ["/foo/*", "/foo/bar", ["bar"]],
+    ["/foo/*", "/foo/bar/baz", null],
+    ["/foo/b*r", "/foo/bar", ["bar"]],
+    ["/foo/b*r", "/foo/br", ["br"]],
+    ["/foo/b*r", "/foo/baz", null],
+    ["/foo/ba?", "/foo/baz", ["baz"]],
+    ["/foo/ba?", "/foo/ba", null],
+    ["/ch/[0-9][0-9]/mix", "/ch/01/mix", ["01"]],
+    ["/ch/[0-9][0-9]/mix", "/ch/a1/mix", null],
+    ["/ch/[!0-9]", "/ch/a", ["a"]],
+    ["/ch/[!0-9]", "/ch/1", null],
+    ["/ch/[ab-]", "/ch/-", ["-"]],
+    ["/{foo,bar}/x", "/bar/x", ["bar"]],
+    ["/{foo,bar}/x", "/baz/x", null],
+    ["/foo.{a,b}", "/foo.b", ["foo.b"]],
+    ["/foo.{a,b}", "/fooxb", null],
+    ["/ch/*/mix/{fader,on}", "/ch/01/mix/on", ["01", "on"]],
+    ["//fader", "/fader", []],
+    ["//fader", "/ch/01/mix/fader", []],
+    ["/ch//fader", "/ch/01/mix/fader", []],
+    ["/ch//fader", "/bus/01/mix/fader", null],
+    ["/ch//*/fader", "/ch/01/mix/fader", ["mix"]],
+];
+
+Deno.test("pattern match", () => {
+    for (const [pattern, addr, params] of cases) {
+        assertEquals(
+            new OSCAddressPattern(pattern).match(addr),
+            params,
+            `${pattern} ${addr}`,
+        );
+        assertEquals(matchOSCAddress(pattern, addr), params !== null);
+    }
+});
+
+Deno.test("pattern invalid", () => {
+    for (const pattern of ["foo", "/foo[a", "/foo{a", "/foo]", "/foo}"]) {
+        assertThrows(() => new OSCAddressPattern(pattern), OSCProtocolError);
+    }
+});
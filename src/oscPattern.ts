@@ -0,0 +1,198 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSCProtocolError } from "./oscProtocol.ts";
+
+/**
+ * Marker for the OSC 1.1 path-traversal wildcard (`//`)
+ */
+const TRAVERSE = Symbol("traverse");
+
+type SegmentMatcher = string | RegExp | typeof TRAVERSE;
+
+/**
+ * Compiled OSC address pattern.
+ *
+ * Supports `*`, `?`, `[a-z]`, `[!a-z]`, `{foo,bar}` within a path segment and `//` (matches any number of path segments)
+ */
+export class OSCAddressPattern {
+    constructor(readonly pattern: string) {
+        if (pattern.charAt(0) !== "/") {
+            throw new OSCProtocolError({
+                message: `pattern[0] != '/'`,
+                addr: pattern,
+            });
+        }
+        const segments = pattern.split("/");
+        // leading slash
+        segments.shift();
+        this.#segments = segments.map((segment, i) =>
+            // an empty segment is produced by `//` (a trailing slash is matched literally)
+            segment === "" && i < segments.length - 1
+                ? TRAVERSE
+                : compileSegment(segment, pattern)
+        );
+        this.has_wildcards = this.#segments.some(($) => typeof $ !== "string");
+    }
+
+    readonly #segments: SegmentMatcher[];
+
+    /**
+     * `false` if the pattern is a plain address
+     */
+    readonly has_wildcards: boolean;
+
+    /**
+     * Matches an address against the pattern. Returns the address segments that matched wildcard segments of
+     * the pattern (segments skipped by `//` are not included) or `null` if the address does not match.
+     */
+    match(addr: string): string[] | null {
+        if (!this.has_wildcards) {
+            return addr === this.pattern ? [] : null;
+        }
+        if (addr.charAt(0) !== "/") {
+            return null;
+        }
+        const params: string[] = [];
+        if (matchSegments(this.#segments, 0, addr.split("/"), 1, params)) {
+            return params;
+        }
+        return null;
+    }
+
+    /**
+     * Checks if an address matches the pattern
+     */
+    test(addr: string): boolean {
+        return this.match(addr) !== null;
+    }
+}
+
+/**
+ * Checks if an address matches an OSC address pattern. Use {@link OSCAddressPattern} to match the same pattern repeatedly.
+ */
+export function matchOSCAddress(pattern: string, addr: string): boolean {
+    return new OSCAddressPattern(pattern).test(addr);
+}
+
+function matchSegments(
+    pattern: SegmentMatcher[],
+    pi: number,
+    addr: string[],
+    ai: number,
+    params: string[],
+): boolean {
+    if (pi === pattern.length) {
+        return ai === addr.length;
+    }
+    const segment = pattern[pi];
+    if (segment === TRAVERSE) {
+        for (let skip = ai; skip < addr.length; skip++) {
+            if (matchSegments(pattern, pi + 1, addr, skip, params)) {
+                return true;
+            }
+        }
+        return false;
+    }
+    if (ai === addr.length) {
+        return false;
+    }
+    if (typeof segment === "string") {
+        return segment === addr[ai] &&
+            matchSegments(pattern, pi + 1, addr, ai + 1, params);
+    }
+    if (!segment.test(addr[ai])) {
+        return false;
+    }
+    params.push(addr[ai]);
+    if (matchSegments(pattern, pi + 1, addr, ai + 1, params)) {
+        return true;
+    }
+    params.pop();
+    return false;
+}
+
+function compileSegment(segment: string, pattern: string): string | RegExp {
+    if (!/[*?[\]{}]/.test(segment)) {
+        return segment;
+    }
+
+    let re = "^";
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        switch (char) {
+            case "*":
+                re += ".*";
+                break;
+            case "?":
+                re += ".";
+                break;
+            case "[": {
+                const end = segment.indexOf("]", i + 1);
+                if (end === -1) {
+                    throw new OSCProtocolError({
+                        message: `missing ']' in pattern`,
+                        addr: pattern,
+                    });
+                }
+                let body = segment.slice(i + 1, end);
+                let negate = false;
+                if (body.charAt(0) === "!") {
+                    negate = true;
+                    body = body.slice(1);
+                }
+                re += `[${negate ? "^" : ""}${
+                    body.replace(/[\\\]^[]/g, "\\$&")
+                }]`;
+                i = end;
+                break;
+            }
+            case "{": {
+                const end = segment.indexOf("}", i + 1);
+                if (end === -1) {
+                    throw new OSCProtocolError({
+                        message: `missing '}' in pattern`,
+                        addr: pattern,
+                    });
+                }
+                re += `(?:${
+                    segment.slice(i + 1, end).split(",").map(escapeRegExp)
+                        .join("|")
+                })`;
+                i = end;
+                break;
+            }
+            case "]":
+            case "}":
+                throw new OSCProtocolError({
+                    message: `unexpected '${char}' in pattern`,
+                    addr: pattern,
+                });
+            default:
+                re += escapeRegExp(char);
+        }
+    }
+
+    return new RegExp(re + "$");
+}
+
+function escapeRegExp(str: string) {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
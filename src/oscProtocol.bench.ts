@@ -20,6 +20,10 @@
 
 import { decodeOSCSlow, encodeOSCSlow } from "./oscProtocol.slow.ts";
 import { decodeOSC, encodeOSC, encodeOSC_UTF8 } from "./oscProtocol.ts";
+import { encodeOSCInto, OSCEncoder } from "./oscEncoder.ts";
+import { OSCMessageView } from "./oscMessageView.ts";
+import { compileOSCTemplate } from "./oscTemplate.ts";
+import { osc } from "./oscTypes.ts";
 
 const sampleAddr =
     "/foo/bar/40d9dee8-5f94-414a-a5cf-8f072eebaa7a/bd1ed185-71d8-47a3-864b-384a565737e5";
@@ -47,6 +51,35 @@ Deno.bench({
     decodeOSC(sampleMessage);
 });
 
+Deno.bench({
+    name: "address (decodeOSC)",
+    baseline: true,
+    group: "decode view",
+}, () => {
+    decodeOSC(sampleMessage)[0];
+});
+
+Deno.bench({
+    name: "address (view)",
+    group: "decode view",
+}, () => {
+    new OSCMessageView(sampleMessage).address;
+});
+
+Deno.bench({
+    name: "blob (view)",
+    group: "decode view",
+}, () => {
+    new OSCMessageView(sampleMessage).arg(4);
+});
+
+Deno.bench({
+    name: "all arguments (view)",
+    group: "decode view",
+}, () => {
+    new OSCMessageView(sampleMessage).args();
+});
+
 Deno.bench({
     name: "encode (slow)",
     group: "encode",
@@ -68,3 +101,38 @@ Deno.bench({
 }, () => {
     encodeOSC_UTF8(sampleAddr, sampleArgs);
 });
+
+const encoder = new OSCEncoder();
+
+Deno.bench({
+    name: "encode (reusable encoder)",
+    group: "encode",
+}, () => {
+    encoder.encode(sampleAddr, sampleArgs);
+});
+
+const buffer = new Uint8Array(1024);
+
+Deno.bench({
+    name: "encodeOSCInto",
+    group: "encode",
+}, () => {
+    encodeOSCInto(buffer, 0, sampleAddr, sampleArgs);
+});
+
+Deno.bench({
+    name: "encode fader (default)",
+    baseline: true,
+    group: "encode fader",
+}, () => {
+    encodeOSC("/ch/01/mix/fader", [osc.float(0.5)]);
+});
+
+const fader = compileOSCTemplate("/ch/01/mix/fader", ",f");
+
+Deno.bench({
+    name: "encode fader (template)",
+    group: "encode fader",
+}, () => {
+    fader(0.5);
+});
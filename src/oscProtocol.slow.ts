@@ -18,10 +18,26 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { OSCProtocolError } from "./oscProtocol.ts";
+import {
+    type OSCArg,
+    type OSCArgs,
+    type OSCDecoderOptions,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import type { OSCBundle, OSCPacket } from "./oscBundle.ts";
+import {
+    OSC_IMPULSE,
+    OSCChar,
+    OSCColor,
+    OSCImpulse,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+    type OSCTypedArg,
+} from "./oscTypes.ts";
 
-export type OSCArg = string | number | boolean | Uint8Array;
-export type OSCArgs = readonly OSCArg[];
+export type { OSCArg, OSCArgs };
 
 /**
  * Stores an array of Uint8Arrays
@@ -44,7 +60,10 @@ class VariableUint8Array extends Array<Uint8Array> {
 /**
  * Parses an OSC packet. Might throw {@link OSCProtocolError} if the supplied data is invalid
  */
-export function decodeOSCSlow(data: Uint8Array): [addr: string, args: OSCArgs] {
+export function decodeOSCSlow(
+    data: Uint8Array,
+    opt?: OSCDecoderOptions,
+): [addr: string, args: OSCArgs] {
     if (data.length % 4 !== 0) {
         throw new OSCProtocolError({
             message: `data.length % 4 !== 0`,
@@ -62,18 +81,53 @@ export function decodeOSCSlow(data: Uint8Array): [addr: string, args: OSCArgs] {
 
     let pos = 0;
     function consumeToken() {
+        if (pos >= data.length) {
+            throw new OSCProtocolError({
+                message: `unexpected end of packet`,
+                packet: data,
+                offset: pos,
+            });
+        }
         const val = data[pos];
         pos++;
         return val;
     }
 
+    function ensureAvailable(bytes: number) {
+        if (pos + bytes > data.length) {
+            throw new OSCProtocolError({
+                message: `unexpected end of packet`,
+                packet: data,
+                offset: pos,
+            });
+        }
+    }
+
+    function padding(token: number) {
+        if (opt?.strict && token !== 0) {
+            throw new OSCProtocolError({
+                message: `non-zero padding`,
+                packet: data,
+                offset: pos - 1,
+            });
+        }
+    }
+
     function* oscStringGen() {
         let terminated = false;
         while (!terminated) { // break on \0
             for (let i = 0; i < 4; i++) {
                 const token = consumeToken();
-                if (token === 0) {
+                if (terminated) {
+                    padding(token);
+                } else if (token === 0) {
                     terminated = true;
+                } else if (opt?.ascii && token > 0x7f) {
+                    throw new OSCProtocolError({
+                        message: `non-ASCII character`,
+                        packet: data,
+                        offset: pos - 1,
+                    });
                 } else {
                     yield token;
                 }
@@ -86,34 +140,62 @@ export function decodeOSCSlow(data: Uint8Array): [addr: string, args: OSCArgs] {
 
     function oscBlob() {
         const size = oscInt();
+        if (size < 0) {
+            throw new OSCProtocolError({
+                message: `negative blob size`,
+                packet: data,
+                offset: pos - 4,
+            });
+        }
+        ensureAvailable(size + pad(size));
         const view = new Uint8Array(size);
         for (let i = 0; i < size; i++) {
             view[i] = consumeToken();
         }
         for (let i = 0; i < pad(size); i++) {
-            consumeToken();
+            padding(consumeToken());
         }
         return view;
     }
 
     function oscInt() {
+        ensureAvailable(4);
         const val = dv.getInt32(pos, false);
         pos += 4;
         return val;
     }
 
     function oscFloat() {
+        ensureAvailable(4);
         const val = dv.getFloat32(pos, false);
         pos += 4;
         return val;
     }
 
     function oscDouble() {
+        ensureAvailable(8);
         const val = dv.getFloat64(pos, false);
         pos += 8;
         return val;
     }
 
+    function oscInt64() {
+        ensureAvailable(8);
+        const high = BigInt(dv.getInt32(pos, false));
+        const low = BigInt(dv.getUint32(pos + 4, false));
+        pos += 8;
+        return (high << 32n) | low;
+    }
+
+    function oscFourBytes() {
+        return [
+            consumeToken(),
+            consumeToken(),
+            consumeToken(),
+            consumeToken(),
+        ] as const;
+    }
+
     const addr = oscString();
 
     if (addr.charAt(0) !== "/") {
@@ -132,35 +214,99 @@ export function decodeOSCSlow(data: Uint8Array): [addr: string, args: OSCArgs] {
         });
     }
 
-    function* argsGen() {
-        for (const argType of typeTag) {
+    let tagPos = 0;
+    function parseArgs(inArray: boolean): OSCArg[] {
+        const args: OSCArg[] = [];
+        while (tagPos < typeTag.length) {
+            const argType = typeTag[tagPos];
+            tagPos++;
             switch (argType) {
                 case "s":
-                    yield oscString();
+                    args.push(oscString());
+                    break;
+                case "S":
+                    args.push(new OSCSymbol(oscString()));
                     break;
                 case "i":
-                    yield oscInt();
+                    args.push(oscInt());
                     break;
                 case "b":
-                    yield oscBlob();
+                    args.push(oscBlob());
                     break;
                 case "f":
-                    yield oscFloat();
+                    args.push(oscFloat());
                     break;
                 case "d":
-                    yield oscDouble();
+                    args.push(oscDouble());
+                    break;
+                case "h":
+                    args.push(oscInt64());
+                    break;
+                case "t":
+                    args.push(
+                        new OSCTimetagArg(BigInt.asUintN(64, oscInt64())),
+                    );
+                    break;
+                case "c":
+                    args.push(
+                        new OSCChar(String.fromCharCode(oscFourBytes()[3])),
+                    );
+                    break;
+                case "r":
+                    args.push(new OSCColor(...oscFourBytes()));
+                    break;
+                case "m":
+                    args.push(new OSCMIDI(...oscFourBytes()));
                     break;
                 case "T":
-                    yield true;
+                    args.push(true);
                     break;
                 case "F":
-                    yield false;
+                    args.push(false);
+                    break;
+                case "N":
+                    args.push(null);
+                    break;
+                case "I":
+                    args.push(OSC_IMPULSE);
+                    break;
+                case "[":
+                    args.push(parseArgs(true));
                     break;
+                case "]":
+                    if (!inArray) {
+                        throw new OSCProtocolError({
+                            message: `unexpected ']'`,
+                            packet: data,
+                        });
+                    }
+                    return args;
+                default:
+                    throw new OSCProtocolError({
+                        message: `unknown type tag '${argType}'`,
+                        packet: data,
+                    });
             }
         }
+        if (inArray) {
+            throw new OSCProtocolError({
+                message: `missing ']'`,
+                packet: data,
+            });
+        }
+        return args;
+    }
+
+    const args = parseArgs(false);
+
+    if (opt?.strict && pos !== data.length) {
+        throw new OSCProtocolError({
+            message: `bytes after last argument`,
+            packet: data,
+            offset: pos,
+        });
     }
 
-    const args = [...argsGen()];
     return [addr, args] as const;
 }
 
@@ -173,7 +319,7 @@ export interface OSCSlowEncoderOptions {
  */
 export function encodeOSCSlow(
     addr: string,
-    args: OSCArgs = [],
+    args: OSCEncodableArgs = [],
     opt?: OSCSlowEncoderOptions,
 ): Uint8Array {
     if (addr.charAt(0) !== "/") {
@@ -226,7 +372,72 @@ export function encodeOSCSlow(
         return ["b", buf] as const;
     }
 
-    function* argsGen() {
+    function oscInt64(int: bigint) {
+        const buf = new Uint8Array(8);
+        const dv = new DataView(buf.buffer);
+        dv.setUint32(0, Number(BigInt.asUintN(64, int) >> 32n), false);
+        dv.setUint32(4, Number(BigInt.asUintN(32, int)), false);
+        return buf;
+    }
+
+    function oscTyped(arg: OSCTypedArg): readonly [string, Uint8Array] {
+        switch (arg.type) {
+            case "i":
+                return oscInt(arg.value);
+            case "f":
+                return oscFloat(arg.value);
+            case "d":
+                return oscDouble(arg.value);
+            case "h":
+                return ["h", oscInt64(arg.value)];
+            case "t":
+                return [
+                    "t",
+                    oscInt64(
+                        typeof arg.value === "bigint"
+                            ? arg.value
+                            : arg.value.timetag,
+                    ),
+                ];
+            case "s":
+                return oscString(arg.value);
+            case "S":
+                return [
+                    "S",
+                    oscString(
+                        typeof arg.value === "string"
+                            ? arg.value
+                            : arg.value.symbol,
+                    )[1],
+                ];
+            case "c":
+                return [...argsGen([
+                    typeof arg.value === "string"
+                        ? new OSCChar(arg.value)
+                        : arg.value,
+                ])][0];
+            case "b":
+                return oscBlob(arg.value);
+            case "r":
+            case "m":
+                return [...argsGen([arg.value])][0];
+            case "T":
+            case "F":
+            case "N":
+            case "I":
+                return [arg.type, new Uint8Array(0)];
+            default:
+                throw new OSCProtocolError({
+                    message: `unsupported type tag`,
+                    args,
+                    addr,
+                });
+        }
+    }
+
+    function* argsGen(
+        args: OSCEncodableArgs,
+    ): Generator<readonly [string, Uint8Array]> {
         for (const arg of args) {
             if (typeof arg === "string") {
                 yield oscString(arg);
@@ -234,6 +445,8 @@ export function encodeOSCSlow(
                 yield ["T", new Uint8Array(0)] as const;
             } else if (arg === false) {
                 yield ["F", new Uint8Array(0)] as const;
+            } else if (arg === null) {
+                yield ["N", new Uint8Array(0)] as const;
             } else if (typeof arg === "number") {
                 if (isInt(arg)) {
                     yield oscInt(arg);
@@ -242,15 +455,61 @@ export function encodeOSCSlow(
                 } else {
                     yield oscFloat(arg);
                 }
+            } else if (typeof arg === "bigint") {
+                yield ["h", oscInt64(arg)] as const;
             } else if (arg instanceof Uint8Array) {
                 yield oscBlob(arg);
+            } else if (Array.isArray(arg)) {
+                yield ["[", new Uint8Array(0)] as const;
+                yield* argsGen(arg);
+                yield ["]", new Uint8Array(0)] as const;
+            } else if (arg instanceof OSCSymbol) {
+                yield ["S", oscString(arg.symbol)[1]] as const;
+            } else if (arg instanceof OSCTimetagArg) {
+                yield ["t", oscInt64(arg.timetag)] as const;
+            } else if (arg instanceof OSCChar) {
+                yield [
+                    "c",
+                    new Uint8Array([0, 0, 0, arg.char.charCodeAt(0) & 0xff]),
+                ] as const;
+            } else if (arg instanceof OSCColor) {
+                yield [
+                    "r",
+                    new Uint8Array([arg.r, arg.g, arg.b, arg.a]),
+                ] as const;
+            } else if (arg instanceof OSCMIDI) {
+                yield [
+                    "m",
+                    new Uint8Array([
+                        arg.port,
+                        arg.status,
+                        arg.data1,
+                        arg.data2,
+                    ]),
+                ] as const;
+            } else if (arg instanceof OSCImpulse) {
+                yield ["I", new Uint8Array(0)] as const;
+            } else if (typeof arg === "object" && "type" in arg) {
+                if (arg.type === "[") {
+                    yield ["[", new Uint8Array(0)] as const;
+                    yield* argsGen(arg.value);
+                    yield ["]", new Uint8Array(0)] as const;
+                } else {
+                    yield oscTyped(arg);
+                }
+            } else {
+                throw new OSCProtocolError({
+                    message: `unsupported argument type`,
+                    args,
+                    addr,
+                });
             }
         }
     }
 
     const typeTag = [","];
 
-    const argData = [...argsGen()];
+    const argData = [...argsGen(args)];
 
     for (const [type] of argData) {
         typeTag.push(type);
@@ -266,6 +525,80 @@ export function encodeOSCSlow(
     return data.pack();
 }
 
+/**
+ * Parses an OSC message or bundle. Might throw {@link OSCProtocolError} if the supplied data is invalid
+ */
+export function decodeOSCPacketSlow(
+    data: Uint8Array,
+    opt?: OSCDecoderOptions,
+): OSCPacket {
+    const header = new TextDecoder().decode(data.slice(0, 8));
+    if (header !== "#bundle\0") {
+        const [addr, args] = decodeOSCSlow(data, opt);
+        return { addr, args };
+    }
+    if (data.length % 4 !== 0 || data.length < 16) {
+        throw new OSCProtocolError({
+            message: `invalid bundle length ${data.length}`,
+            packet: data,
+        });
+    }
+
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const seconds = BigInt(dv.getUint32(8, false));
+    const fraction = BigInt(dv.getUint32(12, false));
+
+    const elements: OSCPacket[] = [];
+    let pos = 16;
+    while (pos < data.length) {
+        const size = dv.getInt32(pos, false);
+        pos += 4;
+        if (size <= 0 || size % 4 !== 0 || pos + size > data.length) {
+            throw new OSCProtocolError({
+                message: `invalid bundle element size ${size}`,
+                packet: data,
+            });
+        }
+        elements.push(decodeOSCPacketSlow(data.slice(pos, pos + size), opt));
+        pos += size;
+    }
+
+    return {
+        timetag: (seconds << 32n) | fraction,
+        elements,
+    };
+}
+
+/**
+ * Generate an OSC bundle. Might throw {@link OSCProtocolError} if the supplied data is invalid
+ */
+export function encodeOSCBundleSlow(
+    bundle: OSCBundle,
+    opt?: OSCSlowEncoderOptions,
+): Uint8Array {
+    const data = new VariableUint8Array();
+
+    data.push(new TextEncoder().encode("#bundle\0"));
+
+    const timetag = new Uint8Array(8);
+    const dv = new DataView(timetag.buffer);
+    dv.setUint32(0, Number((bundle.timetag >> 32n) & 0xffffffffn), false);
+    dv.setUint32(4, Number(bundle.timetag & 0xffffffffn), false);
+    data.push(timetag);
+
+    for (const element of bundle.elements) {
+        const content = "elements" in element
+            ? encodeOSCBundleSlow(element, opt)
+            : encodeOSCSlow(element.addr, element.args, opt);
+        const size = new Uint8Array(4);
+        new DataView(size.buffer).setInt32(0, content.length, false);
+        data.push(size);
+        data.push(content);
+    }
+
+    return data.pack();
+}
+
 function isInt(num: number) {
     return Math.round(num) === num;
 }
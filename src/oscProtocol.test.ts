@@ -18,15 +18,35 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { assert, assertEquals } from "@std/assert";
+import { assert, assertEquals, assertThrows, fail } from "@std/assert";
 import {
     align4,
     decodeOSC,
+    decodeOSCTyped,
     encodeOSC,
     encodeOSC_UTF8,
     type OSCArgs,
+    type OSCDecoderOptions,
+    type OSCEncodableArgs,
+    OSCProtocolError,
 } from "./oscProtocol.ts";
-import { decodeOSCSlow, encodeOSCSlow, pad } from "./oscProtocol.slow.ts";
+import {
+    decodeOSCPacketSlow,
+    decodeOSCSlow,
+    encodeOSCBundleSlow,
+    encodeOSCSlow,
+    pad,
+} from "./oscProtocol.slow.ts";
+import { decodeOSCPacket, OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+import {
+    osc,
+    OSC_IMPULSE,
+    OSCChar,
+    OSCColor,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+} from "./oscTypes.ts";
 
 Deno.test("padding (slow)", () => {
     // minPad 0
@@ -60,6 +80,18 @@ const testPackets: [addr: string, args: OSCArgs][] = [
     ["/foo/bar/2", ["baz", 123, true]],
     ["/foo/bar/3", ["baz2", 2.5, true]],
     ["/foo/bar", ["baz", new Uint8Array([1, 2, 3, 4, 5])]],
+    ["/foo/int64", [123n, -5n, 0x7fffffff_ffffffffn, -0x80000000_00000000n]],
+    ["/foo/ext", [
+        new OSCTimetagArg(0xe9a1b2c3_12345678n),
+        new OSCChar("x"),
+        new OSCColor(255, 128, 0, 255),
+        new OSCMIDI(0, 0x90, 60, 127),
+        null,
+        OSC_IMPULSE,
+        new OSCSymbol("sym"),
+        "after",
+    ]],
+    ["/foo/array", [1, [2, "baz", [true, null]], [], 3.5]],
 ];
 const encodedPackets: Uint8Array[] = testPackets.map(([addr, args]) =>
     encodeOSCSlow(addr, args)
@@ -111,3 +143,270 @@ Deno.test("encode/decode equals", () => {
         assertEquals(args2, args);
     }
 });
+
+Deno.test("decode unknown type tag", () => {
+    const packet = encodeOSCSlow("/foo", [1, 2]);
+    // ",ii" -> ",ix"
+    packet[10] = "x".charCodeAt(0);
+    assertThrows(() => decodeOSC(packet), OSCProtocolError);
+    assertThrows(() => decodeOSCSlow(packet), OSCProtocolError);
+});
+
+Deno.test("decode unbalanced array", () => {
+    const open = encodeOSCSlow("/foo", [[true], true]);
+    // ",[T]T" -> ",[TTT"
+    open[11] = "T".charCodeAt(0);
+    assertThrows(() => decodeOSC(open), OSCProtocolError);
+    assertThrows(() => decodeOSCSlow(open), OSCProtocolError);
+
+    const close = encodeOSCSlow("/foo", [1, 2]);
+    // ",ii" -> ",i]"
+    close[10] = "]".charCodeAt(0);
+    assertThrows(() => decodeOSC(close), OSCProtocolError);
+    assertThrows(() => decodeOSCSlow(close), OSCProtocolError);
+});
+
+const typedPackets: [addr: string, args: OSCEncodableArgs][] = [
+    ["/typed/1", [osc.float(1), osc.double(2), osc.int(3), osc.int64(4n)]],
+    ["/typed/2", [
+        osc.string("baz"),
+        osc.symbol("sym"),
+        osc.char("x"),
+        osc.timetag(0xe9a1b2c3_12345678n),
+        osc.blob(new Uint8Array([1, 2, 3])),
+    ]],
+    ["/typed/3", [
+        osc.bool(true),
+        osc.bool(false),
+        osc.nil(),
+        osc.impulse(),
+        osc.color(1, 2, 3, 4),
+        osc.midi(0, 0x90, 60, 127),
+    ]],
+    ["/typed/mixed", [1, osc.float(1), [osc.float(2), 2.5], {
+        type: "d",
+        value: 3,
+    }]],
+];
+
+Deno.test("encode equals (typed)", () => {
+    for (const [addr, args] of typedPackets) {
+        const expected = encodeOSCSlow(addr, args);
+        assertEquals(encodeOSC(addr, args), expected);
+        assertEquals(encodeOSC_UTF8(addr, args), expected);
+    }
+});
+
+Deno.test("encode typed type tags", () => {
+    const [, args] = decodeOSC(encodeOSC("/foo", [osc.float(1), 1]));
+    assertEquals(args, [1, 1]);
+    assertEquals(
+        encodeOSC("/foo", [osc.float(1)]),
+        new Uint8Array([
+            ...[0x2f, 0x66, 0x6f, 0x6f, 0, 0, 0, 0], // "/foo"
+            ...[0x2c, 0x66, 0, 0], // ",f"
+            ...[0x3f, 0x80, 0, 0], // 1.0f
+        ]),
+    );
+});
+
+Deno.test("encode unsupported typed argument", () => {
+    const args = [{ type: "x", value: 1 }] as unknown as OSCEncodableArgs;
+    assertThrows(() => encodeOSC("/foo", args), OSCProtocolError);
+    assertThrows(() => encodeOSC_UTF8("/foo", args), OSCProtocolError);
+});
+
+Deno.test("decode typed", () => {
+    const packet = encodeOSC("/foo", [
+        osc.int(1),
+        osc.float(1),
+        osc.double(1),
+        [osc.symbol("sym"), true],
+    ]);
+    assertEquals(decodeOSCTyped(packet), {
+        addr: "/foo",
+        typeTags: ",ifd[ST]",
+        args: [
+            { type: "i", value: 1 },
+            { type: "f", value: 1 },
+            { type: "d", value: 1 },
+            {
+                type: "[",
+                value: [{ type: "S", value: "sym" }, {
+                    type: "T",
+                    value: true,
+                }],
+            },
+        ],
+    });
+});
+
+Deno.test("decode typed/encode equals", () => {
+    for (const [addr, args] of [...testPackets, ...typedPackets]) {
+        for (
+            const packet of [
+                encodeOSCSlow(addr, args),
+                encodeOSCSlow(addr, args, { f64: true }),
+            ]
+        ) {
+            const typed = decodeOSCTyped(packet);
+            assertEquals(encodeOSC(typed.addr, typed.args), packet);
+            assertEquals(encodeOSCSlow(typed.addr, typed.args), packet);
+        }
+    }
+});
+
+Deno.test("decode bounds checks", () => {
+    const packet = encodeOSCSlow("/foo", [
+        "baz",
+        new Uint8Array([1, 2, 3, 4, 5]),
+    ]);
+    const cases: [name: string, data: Uint8Array, offset: number][] = [
+        ["unterminated address", new Uint8Array(8).fill(0x61), 0],
+        ["missing type tag", packet.slice(0, 8), 8],
+        // truncated after the string argument
+        ["missing blob", packet.slice(0, 16), 16],
+        // blob length runs past the end of the packet
+        ["blob length", packet.slice(0, 24), 16],
+    ];
+    for (const [name, data, offset] of cases) {
+        const e = assertThrows(() => decodeOSC(data), OSCProtocolError);
+        assertEquals(e.desc.offset, offset, name);
+        assertThrows(() => decodeOSCSlow(data), OSCProtocolError);
+    }
+
+    const e = assertThrows(
+        () => decodeOSC(packet.slice(0, 16)),
+        OSCProtocolError,
+    );
+    assertEquals(e.desc.arg_index, 1);
+
+    // blob length close to 2^31 (padding would overflow int32)
+    const huge = encodeOSCSlow("/foo", [new Uint8Array(4)]);
+    new DataView(huge.buffer).setInt32(12, 0x7fffffff, false);
+    for (const strict of [false, true]) {
+        const e = assertThrows(
+            () => decodeOSC(huge, { strict }),
+            OSCProtocolError,
+            "invalid blob length",
+        );
+        assertEquals(e.desc.offset, 12);
+    }
+    assertThrows(() => decodeOSCSlow(huge), OSCProtocolError);
+});
+
+Deno.test("decode strict", () => {
+    const strict: OSCDecoderOptions = { strict: true };
+    const packet = encodeOSCSlow("/foo", ["ba", 1]);
+    assertEquals(decodeOSC(packet, strict), ["/foo", ["ba", 1]]);
+
+    const no_slash = packet.slice();
+    no_slash[0] = "x".charCodeAt(0);
+    decodeOSC(no_slash);
+    assertThrows(() => decodeOSC(no_slash, strict), OSCProtocolError);
+
+    const padding = packet.slice();
+    padding[15] = 1;
+    decodeOSC(padding);
+    const e = assertThrows(() => decodeOSC(padding, strict), OSCProtocolError);
+    assertEquals(e.desc.offset, 15);
+    assertEquals(e.desc.arg_index, 0);
+
+    const trailing = new Uint8Array(packet.length + 4);
+    trailing.set(packet);
+    decodeOSC(trailing);
+    assertThrows(() => decodeOSC(trailing, strict), OSCProtocolError);
+});
+
+Deno.test("decode ascii", () => {
+    const packet = encodeOSC_UTF8("/foo", ["bäz"]);
+    assertEquals(decodeOSC(packet), ["/foo", ["bäz"]]);
+    const e = assertThrows(
+        () => decodeOSC(packet, { ascii: true }),
+        OSCProtocolError,
+    );
+    assertEquals(e.desc.offset, 13);
+    assertEquals(e.desc.arg_index, 0);
+    assertThrows(
+        () => decodeOSCSlow(packet, { ascii: true }),
+        OSCProtocolError,
+    );
+});
+
+/**
+ * deterministic PRNG (mulberry32)
+ */
+function random(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+Deno.test("decode fuzzed corpus (fast/slow)", () => {
+    const corpus = [...testPackets, ...typedPackets].map(([addr, args]) =>
+        encodeOSCSlow(addr, args)
+    );
+    corpus.push(encodeOSCBundleSlow({
+        timetag: OSC_TIMETAG_IMMEDIATELY,
+        elements: [
+            { addr: "/foo", args: [1, "baz"] },
+            { addr: "/bar", args: [new Uint8Array([1, 2])] },
+        ],
+    }));
+
+    const rand = random(0x05c);
+    const int = (max: number) => Math.floor(rand() * max);
+
+    const options: OSCDecoderOptions[] = [
+        {},
+        { strict: true },
+        { strict: true, ascii: true },
+    ];
+
+    function outcome(decode: () => unknown) {
+        try {
+            return { value: decode() };
+        } catch (e) {
+            if (!(e instanceof OSCProtocolError)) {
+                fail(`unexpected error: ${e}`);
+            }
+            return { error: e };
+        }
+    }
+
+    for (let i = 0; i < 3000; i++) {
+        let data = corpus[int(corpus.length)].slice();
+        for (let mutations = 1 + int(3); mutations > 0; mutations--) {
+            switch (int(4)) {
+                case 0:
+                case 1:
+                    data[int(data.length)] = int(256);
+                    break;
+                case 2:
+                    data = data.slice(0, int(data.length / 4 + 1) * 4);
+                    break;
+                case 3: {
+                    const extended = new Uint8Array(data.length + 4);
+                    extended.set(data);
+                    extended.fill(int(256), data.length);
+                    data = extended;
+                    break;
+                }
+            }
+        }
+
+        for (const o of options) {
+            const fast = outcome(() => decodeOSCPacket(data, o));
+            const slow = outcome(() => decodeOSCPacketSlow(data, o));
+            if (o.strict) {
+                assertEquals("value" in fast, "value" in slow, `${data}`);
+            }
+            if ("value" in fast && "value" in slow) {
+                assertEquals(fast.value, slow.value);
+            }
+        }
+    }
+});
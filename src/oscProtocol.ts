@@ -20,38 +20,117 @@
 
 import { assert } from "@std/assert/assert";
 import { ASCII } from "./ascii.ts";
+import {
+    OSC_IMPULSE,
+    OSCChar,
+    OSCColor,
+    OSCImpulse,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+    type OSCTypedArg,
+} from "./oscTypes.ts";
 
 /**
- * An OSC argument. Can be a string, number, boolean or a binary blob.
+ * An OSC argument.
+ *
+ * | type tag  | JS value                  |
+ * | --------- | ------------------------- |
+ * | s         | `string`                  |
+ * | i, f, d   | `number`                  |
+ * | h         | `bigint`                  |
+ * | b         | `Uint8Array`              |
+ * | T, F      | `boolean`                 |
+ * | N         | `null`                    |
+ * | t         | {@link OSCTimetagArg}     |
+ * | c         | {@link OSCChar}           |
+ * | r         | {@link OSCColor}          |
+ * | m         | {@link OSCMIDI}           |
+ * | I         | {@link OSCImpulse}        |
+ * | S         | {@link OSCSymbol}         |
+ * | [ ]       | array of arguments        |
  */
-export type OSCArg = string | number | boolean | Uint8Array;
+export type OSCArg =
+    | string
+    | number
+    | boolean
+    | Uint8Array
+    | bigint
+    | null
+    | OSCTimetagArg
+    | OSCChar
+    | OSCColor
+    | OSCMIDI
+    | OSCImpulse
+    | OSCSymbol
+    | readonly OSCArg[];
 
 /**
  * An array of OSC arguments
  */
 export type OSCArgs = readonly OSCArg[];
 
+/**
+ * An argument accepted by the encoders: either a plain {@link OSCArg} (the type tag is derived from the value)
+ * or an explicitly typed {@link OSCTypedArg}
+ */
+export type OSCEncodableArg =
+    | Exclude<OSCArg, readonly OSCArg[]>
+    | OSCTypedArg
+    | readonly OSCEncodableArg[];
+
+/**
+ * An array of arguments accepted by the encoders
+ */
+export type OSCEncodableArgs = readonly OSCEncodableArg[];
+
 /**
  * Might be thrown during {@link encodeOSC} and {@link decodeOSC} if the supplied data is invalid.
- * `.desc` contains the supplied params (addr, args for encodeOSC / data for decodeOSC)
+ * `.desc` contains the supplied params (addr, args for encodeOSC / data for decodeOSC).
+ * Decoding errors additionally carry the byte offset and (if applicable) the index of the argument (position in the type tag string, excluding the comma)
  */
 export class OSCProtocolError extends Error {
     constructor(
         readonly desc: {
             message: string;
             addr?: string;
-            args?: readonly OSCArg[];
+            args?: OSCEncodableArgs;
             packet?: Uint8Array;
+            offset?: number;
+            arg_index?: number;
         },
     ) {
-        super(`${desc.message} (addr: ${desc.addr})`);
+        super(
+            `${desc.message} (addr: ${desc.addr}${
+                desc.offset !== undefined ? `, offset: ${desc.offset}` : ""
+            }${
+                desc.arg_index !== undefined
+                    ? `, arg: ${desc.arg_index}`
+                    : ""
+            })`,
+        );
     }
 }
 
+export interface OSCDecoderOptions {
+    /**
+     * Additionally require the address to start with '/', all padding bytes to be zero and no bytes after the last argument
+     */
+    strict?: boolean;
+
+    /**
+     * Reject non-ASCII characters in the address and in string and symbol arguments
+     */
+    ascii?: boolean;
+}
+
 /**
  * Parses an OSC packet. Might throw {@link OSCProtocolError} if the supplied data is invalid
  */
-export function decodeOSC(data: Uint8Array): [addr: string, args: OSCArgs] {
+export function decodeOSC(
+    data: Uint8Array,
+    options?: OSCDecoderOptions,
+): [addr: string, args: OSCArgs] {
     if (data.length % 4 !== 0) {
         throw new OSCProtocolError({
             message: `data.length % 4 !== 0`,
@@ -65,74 +144,296 @@ export function decodeOSC(data: Uint8Array): [addr: string, args: OSCArgs] {
         });
     }
 
+    const strict = options?.strict ?? false;
+    const ascii = options?.ascii ?? false;
+
     const td = new TextDecoder();
     const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
 
-    const addr_end = data.indexOf(ASCII.NULL);
-    const addr = td.decode(
+    // not known until the address is decoded
+    let addr: string | undefined = undefined;
+
+    function error(message: string, offset: number, arg_index?: number) {
+        return new OSCProtocolError({
+            message,
+            packet: data,
+            addr,
+            offset,
+            arg_index,
+        });
+    }
+
+    /**
+     * Finds the terminating NULL of the string starting at `start` and validates the string (and its padding)
+     */
+    function stringEnd(start: number, arg_index?: number): number {
+        const end = data.indexOf(ASCII.NULL, start);
+        if (end === -1) {
+            throw error(`unterminated string`, start, arg_index);
+        }
+        if (ascii) {
+            for (let i = start; i < end; i++) {
+                if (data[i] > 0x7f) {
+                    throw error(`non-ASCII character`, i, arg_index);
+                }
+            }
+        }
+        if (strict) {
+            checkPadding(end + 1, align4(end + 1), arg_index);
+        }
+        return end;
+    }
+
+    function checkPadding(start: number, end: number, arg_index?: number) {
+        for (let i = start; i < end; i++) {
+            if (data[i] !== 0) {
+                throw error(`non-zero padding`, i, arg_index);
+            }
+        }
+    }
+
+    if (strict && data[0] !== ASCII.SLASH) {
+        throw error(`addr[0] != '/'`, 0);
+    }
+
+    const addr_end = stringEnd(0);
+    addr = td.decode(
         new Uint8Array(data.buffer, data.byteOffset, addr_end),
     );
     let offset = align4(addr_end + 1);
 
     const tt_offset = offset;
-    const tt_end = data.indexOf(ASCII.NULL, tt_offset);
-    offset = align4(tt_end + 1);
 
     if (data[tt_offset] !== ASCII.COMMA) {
-        throw new OSCProtocolError({
-            message: `invalid type tag`,
-            packet: data,
-            addr,
-        });
+        throw error(`invalid type tag`, tt_offset);
     }
 
-    const args: OSCArg[] = Array(tt_end - tt_offset - 1);
+    const tt_end = stringEnd(tt_offset);
+    offset = align4(tt_end + 1);
+
+    const args: OSCArg[] = [];
+
+    // arrays: `target` is the innermost open array, `parents` the enclosing ones
+    let target = args;
+    const parents: OSCArg[][] = [];
 
-    for (let i = 0, ti = tt_offset + 1; ti < tt_end; (i++, ti++)) {
+    for (let ti = tt_offset + 1; ti < tt_end; ti++) {
+        const arg_index = ti - tt_offset - 1;
+        const size = ARG_SIZE[data[ti]];
+        if (size !== undefined && offset + size > data.length) {
+            throw error(`argument exceeds packet`, offset, arg_index);
+        }
         switch (data[ti]) {
-            case ASCII.s: {
-                const end = data.indexOf(ASCII.NULL, offset);
-                args[i] = td.decode(
+            case ASCII.s:
+            case ASCII.S: {
+                const end = stringEnd(offset, arg_index);
+                const str = td.decode(
                     new Uint8Array(
                         data.buffer,
                         data.byteOffset + offset,
                         end - offset,
                     ),
                 );
+                target.push(
+                    data[ti] === ASCII.s ? str : new OSCSymbol(str),
+                );
                 offset = align4(end + 1);
                 break;
             }
             case ASCII.i:
-                args[i] = dv.getInt32(offset, false);
+                target.push(dv.getInt32(offset, false));
                 offset += 4;
                 break;
             case ASCII.b: {
                 const len = dv.getInt32(offset, false);
+                // compared before align4, which overflows for lengths close to 2^31
+                if (
+                    len < 0 || len > data.length - offset - 4 ||
+                    offset + 4 + align4(len) > data.length
+                ) {
+                    throw error(
+                        `invalid blob length ${len}`,
+                        offset,
+                        arg_index,
+                    );
+                }
                 offset += 4;
-                args[i] = data.slice(offset, offset + len);
+                target.push(data.slice(offset, offset + len));
+                if (strict) {
+                    checkPadding(offset + len, offset + align4(len), arg_index);
+                }
                 offset += align4(len);
                 break;
             }
             case ASCII.f:
-                args[i] = dv.getFloat32(offset, false);
+                target.push(dv.getFloat32(offset, false));
                 offset += 4;
                 break;
             case ASCII.d:
-                args[i] = dv.getFloat64(offset, false);
+                target.push(dv.getFloat64(offset, false));
                 offset += 8;
                 break;
+            case ASCII.h:
+                target.push(dv.getBigInt64(offset, false));
+                offset += 8;
+                break;
+            case ASCII.t:
+                target.push(new OSCTimetagArg(dv.getBigUint64(offset, false)));
+                offset += 8;
+                break;
+            case ASCII.c:
+                target.push(
+                    new OSCChar(
+                        String.fromCharCode(dv.getUint32(offset, false) & 0xff),
+                    ),
+                );
+                offset += 4;
+                break;
+            case ASCII.r:
+                target.push(
+                    new OSCColor(
+                        data[offset],
+                        data[offset + 1],
+                        data[offset + 2],
+                        data[offset + 3],
+                    ),
+                );
+                offset += 4;
+                break;
+            case ASCII.m:
+                target.push(
+                    new OSCMIDI(
+                        data[offset],
+                        data[offset + 1],
+                        data[offset + 2],
+                        data[offset + 3],
+                    ),
+                );
+                offset += 4;
+                break;
             case ASCII.T:
-                args[i] = true;
+                target.push(true);
                 break;
             case ASCII.F:
-                args[i] = false;
+                target.push(false);
+                break;
+            case ASCII.N:
+                target.push(null);
+                break;
+            case ASCII.I:
+                target.push(OSC_IMPULSE);
+                break;
+            case ASCII.BRACKET_OPEN: {
+                const array: OSCArg[] = [];
+                target.push(array);
+                parents.push(target);
+                target = array;
+                break;
+            }
+            case ASCII.BRACKET_CLOSE: {
+                const parent = parents.pop();
+                if (!parent) {
+                    throw error(`unexpected ']' in type tag`, ti, arg_index);
+                }
+                target = parent;
                 break;
+            }
+            default:
+                throw error(
+                    `unknown type tag '${String.fromCharCode(data[ti])}'`,
+                    ti,
+                    arg_index,
+                );
         }
     }
 
+    if (parents.length > 0) {
+        throw error(`missing ']' in type tag`, tt_end);
+    }
+
+    if (strict && offset !== data.length) {
+        throw error(
+            `${data.length - offset} bytes after last argument`,
+            offset,
+        );
+    }
+
     return [addr, args] as const;
 }
 
+/**
+ * Minimum number of bytes required for the data of each type (strings and blobs are checked separately)
+ */
+const ARG_SIZE: Partial<Record<number, number>> = {
+    [ASCII.i]: 4,
+    [ASCII.b]: 4,
+    [ASCII.f]: 4,
+    [ASCII.d]: 8,
+    [ASCII.h]: 8,
+    [ASCII.t]: 8,
+    [ASCII.c]: 4,
+    [ASCII.r]: 4,
+    [ASCII.m]: 4,
+};
+
+/**
+ * Result of {@link decodeOSCTyped}
+ */
+export interface OSCTypedMessage {
+    addr: string;
+    /**
+     * The raw type tag string, including the leading comma (e.g. `,ifs`)
+     */
+    typeTags: string;
+    /**
+     * Every argument with its type tag. Arrays are represented as `{ type: "[", value: [...] }`.
+     */
+    args: OSCTypedArg[];
+}
+
+/**
+ * Parses an OSC packet, but keeps the type of every argument.
+ * Re-encoding the result (`encodeOSC(msg.addr, msg.args)`) yields the same packet.
+ * Might throw {@link OSCProtocolError} if the supplied data is invalid
+ */
+export function decodeOSCTyped(
+    data: Uint8Array,
+    options?: OSCDecoderOptions,
+): OSCTypedMessage {
+    const [addr, args] = decodeOSC(data, options);
+
+    // decodeOSC already validated the layout
+    const tt_offset = align4(data.indexOf(ASCII.NULL) + 1);
+    const typeTags = new TextDecoder().decode(
+        data.subarray(tt_offset, data.indexOf(ASCII.NULL, tt_offset)),
+    );
+
+    let ti = 1;
+    function zip(args: OSCArgs): OSCTypedArg[] {
+        return args.map((arg): OSCTypedArg => {
+            const type = typeTags[ti++];
+            switch (type) {
+                case "[": {
+                    const value = zip(arg as OSCArgs);
+                    // skip ']'
+                    ti++;
+                    return { type, value };
+                }
+                case "S":
+                    return { type, value: (arg as OSCSymbol).symbol };
+                case "t":
+                    return { type, value: (arg as OSCTimetagArg).timetag };
+                case "c":
+                    return { type, value: (arg as OSCChar).char };
+                default:
+                    return { type, value: arg } as OSCTypedArg;
+            }
+        });
+    }
+
+    return { addr, typeTags, args: zip(args) };
+}
+
 export interface OSCEncoderOptions {
     /**
      * The number of bytes to add to the packet size. This is required for multibyte UTF-8 characters.
@@ -150,40 +451,16 @@ export interface OSCEncoderOptions {
  */
 export function encodeOSC(
     addr: string,
-    args: OSCArgs = [],
+    args: OSCEncodableArgs = [],
     options?: OSCEncoderOptions,
 ): Uint8Array {
     const te = new TextEncoder();
-    const tt = new Uint8Array(args.length);
-
-    let packet_size = align4(addr.length + 1) + align4(tt.length + 2);
-
-    for (let i = 0; i < args.length; i++) {
-        if (args[i] === true) {
-            tt[i] = ASCII.T;
-        } else if (args[i] === false) {
-            tt[i] = ASCII.F;
-        } else if (typeof args[i] === "string") {
-            tt[i] = ASCII.s;
-            const len = (args[i] as string).length;
-            packet_size += align4(len + 1);
-        } else if (typeof args[i] === "number") {
-            if (isInt(args[i] as number)) {
-                tt[i] = ASCII.i;
-                packet_size += 4;
-            } else if (options?.f64) {
-                tt[i] = ASCII.d;
-                packet_size += 8;
-            } else {
-                tt[i] = ASCII.f;
-                packet_size += 4;
-            }
-        } else if (args[i] instanceof Uint8Array) {
-            tt[i] = ASCII.b;
-            const len = (args[i] as Uint8Array).length;
-            packet_size += align4(len) + 4;
-        }
-    }
+    const tt: ASCII[] = [];
+    const values: unknown[] = [];
+
+    let packet_size = align4(addr.length + 1) +
+        measureArgs(addr, args, options, tt, values, (str) => str.length);
+    packet_size += align4(tt.length + 2);
 
     const packet = new Uint8Array(packet_size + (options?.oversize ?? 0));
     const dv = new DataView(packet.buffer);
@@ -194,42 +471,16 @@ export function encodeOSC(
     packet.set(tt, offset + 1);
     offset = align4(offset + tt.length + 2);
 
-    for (let i = 0; i < args.length; i++) {
-        switch (tt[i]) {
-            case ASCII.s: {
-                // we known that packet has an byteOffset of 0
-                const { written } = te.encodeInto(
-                    args[i] as string,
-                    new Uint8Array(packet.buffer, offset),
-                );
-                offset += align4(written + 1);
-                break;
-            }
-            case ASCII.i: {
-                dv.setInt32(offset, args[i] as number, false);
-                offset += 4;
-                break;
-            }
-            case ASCII.f: {
-                dv.setFloat32(offset, args[i] as number, false);
-                offset += 4;
-                break;
-            }
-            case ASCII.d: {
-                dv.setFloat64(offset, args[i] as number, false);
-                offset += 8;
-                break;
-            }
-            case ASCII.b: {
-                const blob = args[i] as Uint8Array;
-                dv.setInt32(offset, blob.length, false);
-                offset += 4;
-                packet.set(blob, offset);
-                offset += align4(blob.length);
-                break;
-            }
-        }
-    }
+    offset = writeArgs(
+        packet,
+        dv,
+        offset,
+        tt,
+        values,
+        (str, offset) =>
+            // we known that packet has an byteOffset of 0
+            te.encodeInto(str, new Uint8Array(packet.buffer, offset)).written,
+    );
 
     if (offset > packet.byteLength) {
         throw new OSCProtocolError({
@@ -248,48 +499,27 @@ export function encodeOSC(
  */
 export function encodeOSC_UTF8(
     addr: string,
-    args: OSCArgs = [],
+    args: OSCEncodableArgs = [],
     options?: OSCEncoderOptions,
 ): Uint8Array {
     const te = new TextEncoder();
-    const tt = new Uint8Array(args.length);
+    const tt: ASCII[] = [];
+    const values: unknown[] = [];
 
     const addr_enc = te.encode(addr);
 
-    const tt_start = align4(addr_enc.length + 1);
-    const tt_end_offset = align4(tt_start + tt.length + 2);
+    const str_args: Uint8Array[] = [];
 
-    let packet_size = tt_end_offset;
+    const args_size = measureArgs(addr, args, options, tt, values, (str) => {
+        const enc = te.encode(str);
+        str_args.push(enc);
+        return enc.length;
+    });
 
-    const str_args: Uint8Array[] = [];
+    const tt_start = align4(addr_enc.length + 1);
+    const tt_end_offset = align4(tt_start + tt.length + 2);
 
-    for (let i = 0; i < args.length; i++) {
-        if (args[i] === true) {
-            tt[i] = ASCII.T;
-        } else if (args[i] === false) {
-            tt[i] = ASCII.F;
-        } else if (typeof args[i] === "string") {
-            tt[i] = ASCII.s;
-            const enc = te.encode(args[i] as string);
-            str_args.push(enc);
-            packet_size += align4(enc.length + 1);
-        } else if (typeof args[i] === "number") {
-            if (isInt(args[i] as number)) {
-                tt[i] = ASCII.i;
-                packet_size += 4;
-            } else if (options?.f64) {
-                tt[i] = ASCII.d;
-                packet_size += 8;
-            } else {
-                tt[i] = ASCII.f;
-                packet_size += 4;
-            }
-        } else if (args[i] instanceof Uint8Array) {
-            tt[i] = ASCII.b;
-            const len = (args[i] as Uint8Array).length;
-            packet_size += align4(len) + 4;
-        }
-    }
+    const packet_size = tt_end_offset + args_size;
 
     const packet = new Uint8Array(packet_size);
     const dv = new DataView(packet.buffer);
@@ -298,33 +528,260 @@ export function encodeOSC_UTF8(
     packet[tt_start] = ASCII.COMMA;
     packet.set(tt, tt_start + 1);
 
-    let offset = tt_end_offset;
+    let str_index = 0;
+    const offset = writeArgs(
+        packet,
+        dv,
+        tt_end_offset,
+        tt,
+        values,
+        (_str, offset) => {
+            const str = str_args[str_index++];
+            packet.set(str, offset);
+            return str.length;
+        },
+    );
+
+    assert(offset === packet_size);
+
+    return new Uint8Array(packet.buffer, 0, offset);
+}
 
-    for (let i = 0; i < args.length; i++) {
+/**
+ * Collects the type tags (including array brackets) in `tt` and the corresponding values in `values`.
+ * Returns the size of the argument data. String sizes are determined by `str_size`.
+ *
+ * Internal, used by the other encoders.
+ */
+export function measureArgs(
+    addr: string,
+    args: OSCEncodableArgs,
+    options: OSCEncoderOptions | undefined,
+    tt: ASCII[],
+    values: unknown[],
+    str_size: (str: string) => number,
+): number {
+    let size = 0;
+
+    for (const arg of args) {
+        if (arg === true) {
+            tt.push(ASCII.T);
+        } else if (arg === false) {
+            tt.push(ASCII.F);
+        } else if (arg === null) {
+            tt.push(ASCII.N);
+        } else if (typeof arg === "string") {
+            tt.push(ASCII.s);
+            size += align4(str_size(arg) + 1);
+        } else if (typeof arg === "number") {
+            if (isInt(arg)) {
+                tt.push(ASCII.i);
+                size += 4;
+            } else if (options?.f64) {
+                tt.push(ASCII.d);
+                size += 8;
+            } else {
+                tt.push(ASCII.f);
+                size += 4;
+            }
+        } else if (typeof arg === "bigint") {
+            tt.push(ASCII.h);
+            size += 8;
+        } else if (arg instanceof Uint8Array) {
+            tt.push(ASCII.b);
+            size += align4(arg.length) + 4;
+        } else if (Array.isArray(arg)) {
+            tt.push(ASCII.BRACKET_OPEN);
+            values.push(null);
+            size += measureArgs(addr, arg, options, tt, values, str_size);
+            tt.push(ASCII.BRACKET_CLOSE);
+            values.push(null);
+            continue;
+        } else if (arg instanceof OSCSymbol) {
+            tt.push(ASCII.S);
+            size += align4(str_size(arg.symbol) + 1);
+        } else if (arg instanceof OSCTimetagArg) {
+            tt.push(ASCII.t);
+            size += 8;
+        } else if (arg instanceof OSCChar) {
+            tt.push(ASCII.c);
+            size += 4;
+        } else if (arg instanceof OSCColor) {
+            tt.push(ASCII.r);
+            size += 4;
+        } else if (arg instanceof OSCMIDI) {
+            tt.push(ASCII.m);
+            size += 4;
+        } else if (arg instanceof OSCImpulse) {
+            tt.push(ASCII.I);
+        } else if (typeof arg === "object" && "type" in arg) {
+            if (arg.type === "[") {
+                tt.push(ASCII.BRACKET_OPEN);
+                values.push(null);
+                size += measureArgs(
+                    addr,
+                    arg.value,
+                    options,
+                    tt,
+                    values,
+                    str_size,
+                );
+                tt.push(ASCII.BRACKET_CLOSE);
+                values.push(null);
+                continue;
+            }
+            const tag = TYPED_ARG_TAGS[arg.type];
+            switch (tag) {
+                case ASCII.s:
+                case ASCII.S: {
+                    const str = arg.value as string | OSCSymbol;
+                    size += align4(
+                        str_size(typeof str === "string" ? str : str.symbol) +
+                            1,
+                    );
+                    break;
+                }
+                case ASCII.b:
+                    size += align4((arg.value as Uint8Array).length) + 4;
+                    break;
+                case ASCII.i:
+                case ASCII.f:
+                case ASCII.c:
+                case ASCII.r:
+                case ASCII.m:
+                    size += 4;
+                    break;
+                case ASCII.d:
+                case ASCII.h:
+                case ASCII.t:
+                    size += 8;
+                    break;
+                case ASCII.T:
+                case ASCII.F:
+                case ASCII.N:
+                case ASCII.I:
+                    break;
+                default:
+                    throw new OSCProtocolError({
+                        message: `unsupported type tag '${arg.type}'`,
+                        args,
+                        addr,
+                    });
+            }
+            tt.push(tag);
+            values.push(arg.value);
+            continue;
+        } else {
+            throw new OSCProtocolError({
+                message: `unsupported argument type (${typeof arg})`,
+                args,
+                addr,
+            });
+        }
+        values.push(arg);
+    }
+
+    return size;
+}
+
+/**
+ * Writes the argument data collected by {@link measureArgs}. Strings are written by `write_str`, which returns the number of bytes written.
+ * Returns the offset after the last argument.
+ *
+ * Internal, used by the other encoders.
+ */
+export function writeArgs(
+    packet: Uint8Array,
+    dv: DataView,
+    offset: number,
+    tt: readonly ASCII[],
+    values: readonly unknown[],
+    write_str: (str: string, offset: number) => number,
+): number {
+    for (let i = 0; i < tt.length; i++) {
         switch (tt[i]) {
             case ASCII.s: {
-                const str = str_args.shift()!;
-                packet.set(str, offset);
-                offset += align4(str.length + 1);
+                const written = write_str(values[i] as string, offset);
+                offset += align4(written + 1);
+                break;
+            }
+            case ASCII.S: {
+                const symbol = values[i] as string | OSCSymbol;
+                const written = write_str(
+                    typeof symbol === "string" ? symbol : symbol.symbol,
+                    offset,
+                );
+                offset += align4(written + 1);
                 break;
             }
             case ASCII.i: {
-                dv.setInt32(offset, args[i] as number, false);
+                dv.setInt32(offset, values[i] as number, false);
                 offset += 4;
                 break;
             }
             case ASCII.f: {
-                dv.setFloat32(offset, args[i] as number, false);
+                dv.setFloat32(offset, values[i] as number, false);
                 offset += 4;
                 break;
             }
             case ASCII.d: {
-                dv.setFloat64(offset, args[i] as number, false);
+                dv.setFloat64(offset, values[i] as number, false);
+                offset += 8;
+                break;
+            }
+            case ASCII.h: {
+                dv.setBigInt64(
+                    offset,
+                    BigInt.asIntN(64, values[i] as bigint),
+                    false,
+                );
+                offset += 8;
+                break;
+            }
+            case ASCII.t: {
+                const timetag = values[i] as bigint | OSCTimetagArg;
+                dv.setBigUint64(
+                    offset,
+                    BigInt.asUintN(
+                        64,
+                        typeof timetag === "bigint" ? timetag : timetag.timetag,
+                    ),
+                    false,
+                );
                 offset += 8;
                 break;
             }
+            case ASCII.c: {
+                const char = values[i] as string | OSCChar;
+                dv.setUint32(
+                    offset,
+                    (typeof char === "string" ? char : char.char)
+                        .charCodeAt(0) & 0xff,
+                    false,
+                );
+                offset += 4;
+                break;
+            }
+            case ASCII.r: {
+                const { r, g, b, a } = values[i] as OSCColor;
+                packet[offset] = r;
+                packet[offset + 1] = g;
+                packet[offset + 2] = b;
+                packet[offset + 3] = a;
+                offset += 4;
+                break;
+            }
+            case ASCII.m: {
+                const { port, status, data1, data2 } = values[i] as OSCMIDI;
+                packet[offset] = port;
+                packet[offset + 1] = status;
+                packet[offset + 2] = data1;
+                packet[offset + 3] = data2;
+                offset += 4;
+                break;
+            }
             case ASCII.b: {
-                const blob = args[i] as Uint8Array;
+                const blob = values[i] as Uint8Array;
                 dv.setInt32(offset, blob.length, false);
                 offset += 4;
                 packet.set(blob, offset);
@@ -334,11 +791,30 @@ export function encodeOSC_UTF8(
         }
     }
 
-    assert(offset === packet_size);
-
-    return new Uint8Array(packet.buffer, 0, offset);
+    return offset;
 }
 
+/**
+ * Type tags allowed in {@link OSCTypedArg}
+ */
+const TYPED_ARG_TAGS: Record<string, ASCII | undefined> = {
+    s: ASCII.s,
+    S: ASCII.S,
+    b: ASCII.b,
+    i: ASCII.i,
+    f: ASCII.f,
+    d: ASCII.d,
+    h: ASCII.h,
+    t: ASCII.t,
+    c: ASCII.c,
+    r: ASCII.r,
+    m: ASCII.m,
+    T: ASCII.T,
+    F: ASCII.F,
+    N: ASCII.N,
+    I: ASCII.I,
+};
+
 function isInt(num: number) {
     return Math.round(num) === num;
 }
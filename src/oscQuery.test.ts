@@ -0,0 +1,192 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { OSCQueryAccess, OSCQueryServer } from "./oscQuery.ts";
+import {
+    fetchOSCQuery,
+    fetchOSCQueryHostInfo,
+    parseOSCQueryNode,
+} from "./oscQueryClient.ts";
+import { decodeOSC, encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import { osc, OSCColor, OSCMIDI } from "./oscTypes.ts";
+
+Deno.test("oscquery server handle", async () => {
+    const server = new OSCQueryServer({ hostname: "127.0.0.1", name: "test" });
+    try {
+        server.add_method("/ch/01/mix/fader", {
+            type: "f",
+            range: [{ min: 0, max: 1 }],
+            value: [0.5],
+            description: "fader",
+        });
+        server.add_method("/ch/01/mix/on", {
+            type: "i",
+            access: OSCQueryAccess.WRITE,
+            value: [1],
+        });
+
+        const get = async (path: string) => {
+            const response = server.handle(
+                new Request(`http://localhost${path}`),
+            );
+            return [
+                response.status,
+                response.status === 200 ? await response.json() : null,
+            ];
+        };
+
+        assertEquals(await get("/ch/01/mix/fader"), [200, {
+            FULL_PATH: "/ch/01/mix/fader",
+            ACCESS: 3,
+            TYPE: "f",
+            DESCRIPTION: "fader",
+            RANGE: [{ MIN: 0, MAX: 1 }],
+            VALUE: [0.5],
+        }]);
+        // write-only: no VALUE
+        assertEquals(await get("/ch/01/mix/on"), [200, {
+            FULL_PATH: "/ch/01/mix/on",
+            ACCESS: 2,
+            TYPE: "i",
+        }]);
+        assertEquals(await get("/ch/01/mix/fader?VALUE"), [200, {
+            VALUE: [0.5],
+        }]);
+        assertEquals(await get("/ch/01/mix/on?VALUE"), [204, null]);
+        assertEquals(await get("/ch/02"), [404, null]);
+        assertEquals(
+            (await get("/ch/"))[1].CONTENTS["01"].CONTENTS.mix.FULL_PATH,
+            "/ch/01/mix",
+        );
+        assertEquals((await get("/?HOST_INFO"))[1].NAME, "test");
+
+        const [addr, args] = decodeOSC(
+            encodeOSC("/ch/01/mix/fader", [osc.float(0.25)]),
+        );
+        assertEquals(server.set_value(addr, args), true);
+        assertEquals(server.set_value("/foo", []), false);
+        assertEquals(await get("/ch/01/mix/fader?VALUE"), [200, {
+            VALUE: [0.25],
+        }]);
+
+        assertThrows(
+            () => server.add_method("foo", { type: "" }),
+            OSCProtocolError,
+        );
+    } finally {
+        await server.destroy();
+    }
+});
+
+Deno.test("oscquery loopback", async () => {
+    const server = new OSCQueryServer({
+        hostname: "127.0.0.1",
+        name: "test",
+        osc_port: 9000,
+        osc_transport: "UDP",
+    });
+    try {
+        server.add_method("/color", {
+            type: "r[ii]m",
+            value: [
+                new OSCColor(255, 0, 16, 128),
+                [1, 2],
+                new OSCMIDI(0, 0x90, 60, 127),
+            ],
+        });
+        const remove = server.add_method("/removed", { type: "N" });
+        remove();
+
+        const url = `http://127.0.0.1:${server.local_addr.port}`;
+        const root = await fetchOSCQuery(url);
+        assertEquals(Object.keys(root.contents!), ["color"]);
+        assertEquals(root.contents!.color, {
+            full_path: "/color",
+            access: OSCQueryAccess.READ_WRITE,
+            description: undefined,
+            type: "r[ii]m",
+            value: [
+                osc.color(255, 0, 16, 128),
+                osc.array([osc.int(1), osc.int(2)]),
+                osc.midi(0, 0x90, 60, 127),
+            ],
+        });
+        const color = await fetchOSCQuery(url, "/color");
+        assertEquals(
+            decodeOSC(encodeOSC(color.full_path, color.value!)),
+            ["/color", [
+                new OSCColor(255, 0, 16, 128),
+                [1, 2],
+                new OSCMIDI(0, 0x90, 60, 127),
+            ]],
+        );
+
+        assertEquals(await fetchOSCQueryHostInfo(url), {
+            name: "test",
+            osc_ip: undefined,
+            osc_port: 9000,
+            osc_transport: "UDP",
+            extensions: {
+                ACCESS: true,
+                VALUE: true,
+                RANGE: true,
+                DESCRIPTION: true,
+                TYPE: true,
+            },
+        });
+        await assertRejects(
+            () => fetchOSCQuery(url, "/foo"),
+            OSCProtocolError,
+            "status 404",
+        );
+    } finally {
+        await server.destroy();
+    }
+});
+
+Deno.test("oscquery parse", () => {
+    assertEquals(
+        parseOSCQueryNode({
+            FULL_PATH: "/foo",
+            ACCESS: 1,
+            TYPE: "hbTF",
+            VALUE: [5, "AQID", true, false],
+        }).value,
+        [
+            osc.int64(5n),
+            osc.blob(new Uint8Array([1, 2, 3])),
+            { type: "T" },
+            { type: "F" },
+        ],
+    );
+    assertThrows(() => parseOSCQueryNode({}), OSCProtocolError);
+    assertThrows(
+        () => parseOSCQueryNode({ FULL_PATH: "/foo", TYPE: "i", VALUE: ["x"] }),
+        OSCProtocolError,
+        "invalid VALUE",
+    );
+    assertThrows(
+        () =>
+            parseOSCQueryNode({ FULL_PATH: "/foo", TYPE: "[i", VALUE: [[1]] }),
+        OSCProtocolError,
+        "invalid TYPE",
+    );
+});
@@ -0,0 +1,298 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { OSCArg, OSCArgs } from "./oscProtocol.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+import {
+    OSCChar,
+    OSCColor,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+} from "./oscTypes.ts";
+
+/**
+ * OSCQuery `ACCESS` attribute
+ */
+export enum OSCQueryAccess {
+    NONE = 0,
+    READ = 1,
+    WRITE = 2,
+    READ_WRITE = 3,
+}
+
+/**
+ * OSCQuery `RANGE` of a single argument
+ */
+export interface OSCQueryRange {
+    min?: number;
+    max?: number;
+    /**
+     * Allowed values
+     */
+    vals?: unknown[];
+}
+
+/**
+ * OSCQuery `HOST_INFO`
+ */
+export interface OSCQueryHostInfo {
+    name?: string;
+    osc_ip?: string;
+    osc_port?: number;
+    osc_transport?: "UDP" | "TCP";
+    extensions?: Record<string, boolean>;
+}
+
+/**
+ * OSC method registered with {@link OSCQueryServer.add_method}
+ */
+export interface OSCQueryMethod {
+    /**
+     * Type tags without the leading comma (e.g. `ff`)
+     */
+    type: string;
+    /**
+     * default: {@link OSCQueryAccess.READ_WRITE}
+     */
+    access?: OSCQueryAccess;
+    description?: string;
+    /**
+     * One entry per argument, `null` if an argument has no range
+     */
+    range?: (OSCQueryRange | null)[];
+    /**
+     * Current value, only reported if the method is readable
+     */
+    value?: OSCArgs;
+}
+
+export interface OSCQueryServerOptions extends OSCQueryHostInfo {
+    /**
+     * Local address the HTTP server binds to (default: `0.0.0.0`)
+     */
+    hostname?: string;
+    /**
+     * Local port the HTTP server binds to (default: `0`, a random port is assigned)
+     */
+    port?: number;
+}
+
+/**
+ * Attributes supported by {@link OSCQueryServer}
+ */
+const EXTENSIONS: Record<string, boolean> = {
+    ACCESS: true,
+    VALUE: true,
+    RANGE: true,
+    DESCRIPTION: true,
+    TYPE: true,
+};
+
+/**
+ * OSCQuery HTTP server describing the OSC address space of the application
+ *
+ * ```ts
+ * const query = new OSCQueryServer({ name: "my app", osc_port: 9000, osc_transport: "UDP" });
+ * query.add_method("/ch/01/mix/fader", { type: "f", range: [{ min: 0, max: 1 }], value: [0.5] });
+ * query.set_value(...decodeOSC(packet));
+ * ```
+ */
+export class OSCQueryServer {
+    constructor(options: OSCQueryServerOptions = {}) {
+        this.#host_info = {
+            NAME: options.name,
+            OSC_IP: options.osc_ip,
+            OSC_PORT: options.osc_port,
+            OSC_TRANSPORT: options.osc_transport,
+            EXTENSIONS,
+        };
+        this.#server = Deno.serve({
+            hostname: options.hostname ?? "0.0.0.0",
+            port: options.port ?? 0,
+            onListen() {},
+        }, (request) => this.handle(request));
+    }
+    readonly #server: Deno.HttpServer<Deno.NetAddr>;
+    readonly #host_info: Record<string, unknown>;
+    readonly #methods = new Map<string, OSCQueryMethod>();
+
+    /**
+     * The local address the HTTP server is bound to
+     */
+    get local_addr(): Deno.NetAddr {
+        return this.#server.addr;
+    }
+
+    /**
+     * Registers an OSC method. Returns a function to remove it again.
+     */
+    add_method(addr: string, method: OSCQueryMethod): () => void {
+        if (addr.charAt(0) !== "/" || addr.length < 2 || addr.endsWith("/")) {
+            throw new OSCProtocolError({
+                message: `invalid OSCQuery method address`,
+                addr,
+            });
+        }
+        const entry = { ...method };
+        this.#methods.set(addr, entry);
+        return () => {
+            if (this.#methods.get(addr) === entry) {
+                this.#methods.delete(addr);
+            }
+        };
+    }
+
+    /**
+     * Updates the value of a method. Returns `false` if no method is registered at the address.
+     */
+    set_value(addr: string, args: OSCArgs): boolean {
+        const method = this.#methods.get(addr);
+        if (!method) {
+            return false;
+        }
+        method.value = args;
+        return true;
+    }
+
+    /**
+     * Handles an OSCQuery HTTP request. Called by the built-in server, but can also be used with another HTTP server.
+     */
+    handle(request: Request): Response {
+        if (request.method !== "GET") {
+            return new Response(null, { status: 405 });
+        }
+        const url = new URL(request.url);
+        const attribute = url.search.slice(1);
+        if (attribute === "HOST_INFO") {
+            return Response.json(this.#host_info);
+        }
+
+        let path;
+        try {
+            path = decodeURIComponent(url.pathname);
+        } catch {
+            return new Response(null, { status: 400 });
+        }
+        if (path.length > 1 && path.endsWith("/")) {
+            path = path.slice(0, -1);
+        }
+        const node = this.#node(path);
+        if (!node) {
+            return new Response(null, { status: 404 });
+        }
+        if (attribute) {
+            if (!(attribute in node)) {
+                return new Response(null, { status: 204 });
+            }
+            return Response.json({ [attribute]: node[attribute] });
+        }
+        return Response.json(node);
+    }
+
+    /**
+     * Builds the JSON node at the given path, `null` if there is no such node
+     */
+    #node(path: string): Record<string, unknown> | null {
+        const prefix = path === "/" ? "/" : `${path}/`;
+        const method = this.#methods.get(path);
+        const children = new Set<string>();
+        for (const addr of this.#methods.keys()) {
+            if (addr.startsWith(prefix)) {
+                children.add(addr.slice(prefix.length).split("/")[0]);
+            }
+        }
+        if (!method && children.size === 0 && path !== "/") {
+            return null;
+        }
+
+        const node: Record<string, unknown> = {
+            FULL_PATH: path,
+            ACCESS: method?.access ??
+                (method ? OSCQueryAccess.READ_WRITE : OSCQueryAccess.NONE),
+        };
+        if (method) {
+            node.TYPE = method.type;
+            if (method.description !== undefined) {
+                node.DESCRIPTION = method.description;
+            }
+            if (method.range) {
+                node.RANGE = method.range.map((range) =>
+                    range && {
+                        MIN: range.min,
+                        MAX: range.max,
+                        VALS: range.vals,
+                    }
+                );
+            }
+            if (
+                method.value && (node.ACCESS as number) & OSCQueryAccess.READ
+            ) {
+                node.VALUE = method.value.map(toJSONValue);
+            }
+        }
+        if (children.size > 0) {
+            const contents: Record<string, unknown> = {};
+            for (const child of [...children].sort()) {
+                contents[child] = this.#node(prefix + child);
+            }
+            node.CONTENTS = contents;
+        }
+        return node;
+    }
+
+    /**
+     * Stops the HTTP server
+     */
+    async destroy(): Promise<void> {
+        await this.#server.shutdown();
+    }
+}
+
+/**
+ * Converts a decoded argument to its OSCQuery JSON representation
+ */
+function toJSONValue(arg: OSCArg): unknown {
+    if (typeof arg === "bigint") {
+        return Number(arg);
+    } else if (arg instanceof OSCTimetagArg) {
+        return Number(arg.timetag);
+    } else if (arg instanceof OSCSymbol) {
+        return arg.symbol;
+    } else if (arg instanceof OSCChar) {
+        return arg.char;
+    } else if (arg instanceof OSCColor) {
+        return `#${
+            [arg.r, arg.g, arg.b, arg.a].map(($) =>
+                $.toString(16).padStart(2, "0")
+            ).join("")
+        }`;
+    } else if (arg instanceof OSCMIDI) {
+        return [arg.port, arg.status, arg.data1, arg.data2];
+    } else if (arg instanceof Uint8Array) {
+        return btoa(String.fromCharCode(...arg));
+    } else if (Array.isArray(arg)) {
+        return arg.map(toJSONValue);
+    } else if (typeof arg === "object") {
+        // OSCImpulse (null is passed through)
+        return null;
+    }
+    return arg;
+}
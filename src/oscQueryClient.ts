@@ -0,0 +1,316 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSCProtocolError } from "./oscProtocol.ts";
+import type {
+    OSCQueryAccess,
+    OSCQueryHostInfo,
+    OSCQueryRange,
+} from "./oscQuery.ts";
+import { OSCColor, OSCMIDI, type OSCTypedArg } from "./oscTypes.ts";
+
+/**
+ * Node of a remote OSCQuery namespace
+ */
+export interface OSCQueryNode {
+    full_path: string;
+    access: OSCQueryAccess;
+    description?: string;
+    /**
+     * Type tags without the leading comma (e.g. `ff`)
+     */
+    type?: string;
+    /**
+     * Current value, can be passed to `encodeOSC(node.full_path, node.value)`
+     */
+    value?: OSCTypedArg[];
+    range?: (OSCQueryRange | null)[];
+    contents?: Record<string, OSCQueryNode>;
+}
+
+/**
+ * Fetches and parses the namespace (or a part of it) of an OSCQuery server
+ *
+ * ```ts
+ * const root = await fetchOSCQuery("http://192.168.1.10:8080");
+ * const fader = await fetchOSCQuery("http://192.168.1.10:8080", "/ch/01/mix/fader");
+ * ```
+ */
+export async function fetchOSCQuery(
+    url: string | URL,
+    path = "/",
+): Promise<OSCQueryNode> {
+    return parseOSCQueryNode(await fetchJSON(new URL(path, url)));
+}
+
+/**
+ * Fetches the `HOST_INFO` of an OSCQuery server
+ */
+export async function fetchOSCQueryHostInfo(
+    url: string | URL,
+): Promise<OSCQueryHostInfo> {
+    const target = new URL("/", url);
+    target.search = "HOST_INFO";
+    const json = await fetchJSON(target);
+    if (!isObject(json)) {
+        throw invalid(`HOST_INFO`);
+    }
+    return {
+        name: optional(json.NAME, isString, "NAME"),
+        osc_ip: optional(json.OSC_IP, isString, "OSC_IP"),
+        osc_port: optional(json.OSC_PORT, isNumber, "OSC_PORT"),
+        osc_transport: optional(
+            json.OSC_TRANSPORT,
+            isString,
+            "OSC_TRANSPORT",
+        ) as OSCQueryHostInfo["osc_transport"],
+        extensions: isObject(json.EXTENSIONS)
+            ? json.EXTENSIONS as Record<string, boolean>
+            : undefined,
+    };
+}
+
+/**
+ * Parses the JSON representation of an OSCQuery node (including its contents).
+ * Throws {@link OSCProtocolError} if it is malformed.
+ */
+export function parseOSCQueryNode(json: unknown): OSCQueryNode {
+    if (!isObject(json) || typeof json.FULL_PATH !== "string") {
+        throw invalid(`node`);
+    }
+    const full_path = json.FULL_PATH;
+    const node: OSCQueryNode = {
+        full_path,
+        access: optional(json.ACCESS, isNumber, "ACCESS", full_path) ?? 0,
+        description: optional(
+            json.DESCRIPTION,
+            isString,
+            "DESCRIPTION",
+            full_path,
+        ),
+        type: optional(json.TYPE, isString, "TYPE", full_path),
+    };
+    if (json.VALUE !== undefined && node.type !== undefined) {
+        if (!Array.isArray(json.VALUE)) {
+            throw invalid(`VALUE`, full_path);
+        }
+        node.value = parseValues(
+            parseTypeTags(node.type, full_path),
+            json.VALUE,
+            full_path,
+        );
+    }
+    if (Array.isArray(json.RANGE)) {
+        node.range = json.RANGE.map((range) =>
+            isObject(range)
+                ? {
+                    min: optional(range.MIN, isNumber, "RANGE", full_path),
+                    max: optional(range.MAX, isNumber, "RANGE", full_path),
+                    vals: Array.isArray(range.VALS) ? range.VALS : undefined,
+                }
+                : null
+        );
+    }
+    if (json.CONTENTS !== undefined) {
+        if (!isObject(json.CONTENTS)) {
+            throw invalid(`CONTENTS`, full_path);
+        }
+        node.contents = {};
+        for (const [name, child] of Object.entries(json.CONTENTS)) {
+            node.contents[name] = parseOSCQueryNode(child);
+        }
+    }
+    return node;
+}
+
+async function fetchJSON(url: URL): Promise<unknown> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        await response.body?.cancel();
+        throw new OSCProtocolError({
+            message:
+                `OSCQuery: GET ${url} failed with status ${response.status}`,
+        });
+    }
+    return await response.json();
+}
+
+type TypeTree = (string | TypeTree)[];
+
+/**
+ * `f[ii]s` => `["f", ["i", "i"], "s"]`
+ */
+function parseTypeTags(type: string, addr: string): TypeTree {
+    const stack: TypeTree[] = [[]];
+    for (const tag of type) {
+        if (tag === "[") {
+            const array: TypeTree = [];
+            stack[stack.length - 1].push(array);
+            stack.push(array);
+        } else if (tag === "]") {
+            if (stack.length === 1) {
+                throw invalid(`TYPE`, addr);
+            }
+            stack.pop();
+        } else {
+            stack[stack.length - 1].push(tag);
+        }
+    }
+    if (stack.length !== 1) {
+        throw invalid(`TYPE`, addr);
+    }
+    return stack[0];
+}
+
+function parseValues(
+    types: TypeTree,
+    values: unknown[],
+    addr: string,
+): OSCTypedArg[] {
+    if (types.length !== values.length) {
+        throw invalid(`VALUE`, addr);
+    }
+    return types.map((type, i) => parseValue(type, values[i], addr));
+}
+
+function parseValue(
+    type: string | TypeTree,
+    value: unknown,
+    addr: string,
+): OSCTypedArg {
+    if (Array.isArray(type)) {
+        if (!Array.isArray(value)) {
+            throw invalid(`VALUE`, addr);
+        }
+        return { type: "[", value: parseValues(type, value, addr) };
+    }
+    switch (type) {
+        case "i":
+        case "f":
+        case "d":
+            if (typeof value === "number") {
+                return { type, value };
+            }
+            break;
+        case "h":
+        case "t":
+            if (typeof value === "number" || typeof value === "string") {
+                try {
+                    return {
+                        type,
+                        value: BigInt(
+                            typeof value === "number"
+                                ? Math.trunc(value)
+                                : value,
+                        ),
+                    };
+                } catch {
+                    // invalid integer string
+                }
+            }
+            break;
+        case "s":
+        case "S":
+        case "c":
+            if (typeof value === "string") {
+                return { type, value };
+            }
+            break;
+        case "b":
+            if (typeof value === "string") {
+                try {
+                    return {
+                        type,
+                        value: Uint8Array.from(
+                            atob(value),
+                            ($) => $.charCodeAt(0),
+                        ),
+                    };
+                } catch {
+                    // invalid base64
+                }
+            }
+            break;
+        case "r": {
+            const hex = typeof value === "string" &&
+                /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i
+                    .exec(value);
+            if (hex) {
+                const [r, g, b, a] = hex.slice(1).map(($) => parseInt($, 16));
+                return { type, value: new OSCColor(r, g, b, a) };
+            }
+            break;
+        }
+        case "m":
+            if (
+                Array.isArray(value) && value.length === 4 &&
+                value.every(($) => typeof $ === "number")
+            ) {
+                const [port, status, data1, data2] = value;
+                return {
+                    type,
+                    value: new OSCMIDI(port, status, data1, data2),
+                };
+            }
+            break;
+        case "T":
+        case "F":
+            return { type: value === false ? "F" : "T" };
+        case "N":
+        case "I":
+            return { type };
+    }
+    throw invalid(`VALUE`, addr);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null &&
+        !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === "string";
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === "number";
+}
+
+function optional<T>(
+    value: unknown,
+    check: (value: unknown) => value is T,
+    attribute: string,
+    addr?: string,
+): T | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!check(value)) {
+        throw invalid(attribute, addr);
+    }
+    return value;
+}
+
+function invalid(attribute: string, addr?: string): OSCProtocolError {
+    return new OSCProtocolError({
+        message: `OSCQuery: invalid ${attribute}`,
+        addr,
+    });
+}
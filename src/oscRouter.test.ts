@@ -0,0 +1,51 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals } from "@std/assert";
+import { OSCRouter } from "./oscRouter.ts";
+
+Deno.test("router dispatch", () => {
+    const router = new OSCRouter();
+    const calls: string[] = [];
+
+    router.on("/ch/*/mix/fader", (args, { addr, params }) => {
+        calls.push(`fader ${addr} ${params} ${args}`);
+    });
+    router.on("/ch/01/mix/fader", () => {
+        calls.push("exact");
+    });
+    const off = router.on("//fader", () => {
+        calls.push("any fader");
+    });
+
+    assertEquals(router.dispatch("/ch/01/mix/fader", [0.5]), true);
+    assertEquals(calls, [
+        "fader /ch/01/mix/fader 01 0.5",
+        "exact",
+        "any fader",
+    ]);
+
+    calls.length = 0;
+    off();
+    assertEquals(router.dispatch("/ch/02/mix/fader", [1]), true);
+    assertEquals(calls, ["fader /ch/02/mix/fader 02 1"]);
+
+    assertEquals(router.dispatch("/bus/01/mix/fader", []), false);
+});
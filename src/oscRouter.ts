@@ -0,0 +1,92 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSCAddressPattern } from "./oscPattern.ts";
+import type { OSCArgs } from "./oscProtocol.ts";
+
+/**
+ * Passed to {@link OSCHandler}
+ */
+export interface OSCRouteMatch {
+    /**
+     * The address of the message
+     */
+    addr: string;
+    /**
+     * The address segments matched by wildcard segments of the pattern
+     */
+    params: string[];
+    /**
+     * The pattern the handler was registered with
+     */
+    pattern: string;
+}
+
+/**
+ * Handler registered with {@link OSCRouter.on}
+ */
+export type OSCHandler = (args: OSCArgs, match: OSCRouteMatch) => void;
+
+/**
+ * Dispatches messages to handlers registered on address patterns
+ *
+ * ```ts
+ * const router = new OSCRouter();
+ * router.on("/ch/[0-9][0-9]/mix/fader", (args, { params: [ch] }) => {});
+ * router.dispatch("/ch/01/mix/fader", [0.5]);
+ * ```
+ */
+export class OSCRouter {
+    readonly #routes: {
+        pattern: OSCAddressPattern;
+        handler: OSCHandler;
+    }[] = [];
+
+    /**
+     * Registers a handler. Returns a function to remove it again.
+     */
+    on(pattern: string, handler: OSCHandler): () => void {
+        const route = { pattern: new OSCAddressPattern(pattern), handler };
+        this.#routes.push(route);
+        return () => {
+            const index = this.#routes.indexOf(route);
+            if (index !== -1) {
+                this.#routes.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Calls every handler whose pattern matches the address (in order of registration).
+     * Returns `false` if no handler matched.
+     */
+    dispatch(addr: string, args: OSCArgs): boolean {
+        let handled = false;
+        // copy: handlers might unregister themselves
+        for (const { pattern, handler } of [...this.#routes]) {
+            const params = pattern.match(addr);
+            if (params) {
+                handled = true;
+                handler(args, { addr, params, pattern: pattern.pattern });
+            }
+        }
+        return handled;
+    }
+}
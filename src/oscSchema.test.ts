@@ -0,0 +1,111 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { defineMessage } from "./oscSchema.ts";
+import { decodeOSC, encodeOSC_UTF8, OSCProtocolError } from "./oscProtocol.ts";
+import { osc, OSC_IMPULSE, OSCChar, OSCSymbol } from "./oscTypes.ts";
+
+Deno.test("schema encode", () => {
+    const CueGo = defineMessage("/cue/go", ["s", "i"]);
+    assertEquals(CueGo.typeTags, ",si");
+    assertEquals(
+        CueGo.encode("intro", 1),
+        encodeOSC_UTF8("/cue/go", ["intro", osc.int(1)]),
+    );
+
+    const mixed = defineMessage("/mixed", ["f", "T", "S", "c", "N", "I"]);
+    assertEquals(
+        mixed.encode(
+            0.5,
+            true,
+            new OSCSymbol("sym"),
+            new OSCChar("x"),
+            null,
+            OSC_IMPULSE,
+        ),
+        encodeOSC_UTF8("/mixed", [
+            osc.float(0.5),
+            true,
+            osc.symbol("sym"),
+            osc.char("x"),
+            null,
+            OSC_IMPULSE,
+        ]),
+    );
+});
+
+Deno.test("schema match", () => {
+    const CueGo = defineMessage("/cue/go", ["s", "i"]);
+    assertEquals(CueGo.match("/cue/stop", ["intro", 1]), null);
+
+    const [addr, args] = decodeOSC(CueGo.encode("intro", 1));
+    const matched = CueGo.match(addr, args);
+    assertEquals(matched, ["intro", 1]);
+    if (matched) {
+        const [name, id]: [string, number] = matched;
+        assertEquals([name, id], ["intro", 1]);
+    }
+
+    const mixed = defineMessage("/mixed", ["S", "c", "T", "F", "N", "I"]);
+    const [mixed_addr, mixed_args] = decodeOSC(
+        mixed.encode(
+            new OSCSymbol("a"),
+            new OSCChar("b"),
+            true,
+            false,
+            null,
+            OSC_IMPULSE,
+        ),
+    );
+    assertEquals(mixed.match(mixed_addr, mixed_args), mixed_args);
+});
+
+Deno.test("schema mismatch", () => {
+    const CueGo = defineMessage("/cue/go", ["s", "i"]);
+    assertThrows(
+        () => CueGo.match("/cue/go", ["intro"]),
+        OSCProtocolError,
+        "expected 2 arguments (,si), got 1",
+    );
+    const error = assertThrows(
+        () => CueGo.match("/cue/go", ["intro", 1.5]),
+        OSCProtocolError,
+        "argument 1: expected i (int32), got number 1.5",
+    );
+    assertEquals(error.desc.arg_index, 1);
+    assertThrows(
+        () => CueGo.match("/cue/go", [1, 1]),
+        OSCProtocolError,
+        "argument 0: expected s (string), got number 1",
+    );
+    assertThrows(
+        () => CueGo.match("/cue/go", [new OSCSymbol("intro"), 1]),
+        OSCProtocolError,
+        "got OSCSymbol",
+    );
+
+    assertThrows(
+        // @ts-expect-error unsupported type
+        () => defineMessage("/foo", ["x"]),
+        OSCProtocolError,
+        "unsupported schema type 'x'",
+    );
+});
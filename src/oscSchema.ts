@@ -0,0 +1,202 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { OSCArg, OSCArgs } from "./oscProtocol.ts";
+import { OSCProtocolError } from "./oscProtocol.ts";
+import { compileOSCTemplate } from "./oscTemplate.ts";
+import {
+    OSCChar,
+    OSCColor,
+    OSCImpulse,
+    OSCMIDI,
+    OSCSymbol,
+    OSCTimetagArg,
+} from "./oscTypes.ts";
+
+/**
+ * Type tags usable in a message schema
+ */
+export type OSCSchemaType =
+    | "i"
+    | "f"
+    | "d"
+    | "h"
+    | "t"
+    | "s"
+    | "S"
+    | "c"
+    | "b"
+    | "r"
+    | "m"
+    | "T"
+    | "F"
+    | "N"
+    | "I";
+
+/**
+ * The (decoded) value of a schema type
+ */
+export type OSCSchemaValue<T extends OSCSchemaType> = T extends "i" | "f" | "d"
+    ? number
+    : T extends "h" ? bigint
+    : T extends "t" ? OSCTimetagArg
+    : T extends "s" ? string
+    : T extends "S" ? OSCSymbol
+    : T extends "c" ? OSCChar
+    : T extends "b" ? Uint8Array
+    : T extends "r" ? OSCColor
+    : T extends "m" ? OSCMIDI
+    : T extends "T" ? true
+    : T extends "F" ? false
+    : T extends "N" ? null
+    : T extends "I" ? OSCImpulse
+    : never;
+
+/**
+ * Tuple of argument values described by a schema
+ */
+export type OSCSchemaArgs<Types extends readonly OSCSchemaType[]> = {
+    -readonly [K in keyof Types]: OSCSchemaValue<Types[K]>;
+};
+
+/**
+ * Message schema created by {@link defineMessage}
+ */
+export interface OSCMessageSchema<Types extends readonly OSCSchemaType[]> {
+    readonly addr: string;
+    readonly types: Types;
+    /**
+     * The type tag string (e.g. `,si`)
+     */
+    readonly typeTags: string;
+    /**
+     * Encodes a message. Values of `T`, `F`, `N` and `I` are implied by the type and ignored.
+     */
+    encode(...args: OSCSchemaArgs<Types>): Uint8Array;
+    /**
+     * Returns `null` if the address does not match. Otherwise the arguments are validated and returned as typed tuple.
+     * Throws {@link OSCProtocolError} if the arguments do not match the schema.
+     */
+    match(addr: string, args: OSCArgs): OSCSchemaArgs<Types> | null;
+}
+
+const SCHEMA_TYPES: Record<
+    OSCSchemaType,
+    [name: string, check: (arg: OSCArg) => boolean]
+> = {
+    i: ["int32", (arg) => Number.isInteger(arg)],
+    f: ["float32", (arg) => typeof arg === "number"],
+    d: ["float64", (arg) => typeof arg === "number"],
+    h: ["int64", (arg) => typeof arg === "bigint"],
+    t: ["timetag", (arg) => arg instanceof OSCTimetagArg],
+    s: ["string", (arg) => typeof arg === "string"],
+    S: ["symbol", (arg) => arg instanceof OSCSymbol],
+    c: ["char", (arg) => arg instanceof OSCChar],
+    b: ["blob", (arg) => arg instanceof Uint8Array],
+    r: ["RGBA color", (arg) => arg instanceof OSCColor],
+    m: ["MIDI message", (arg) => arg instanceof OSCMIDI],
+    T: ["true", (arg) => arg === true],
+    F: ["false", (arg) => arg === false],
+    N: ["nil", (arg) => arg === null],
+    I: ["impulse", (arg) => arg instanceof OSCImpulse],
+};
+
+/**
+ * Declares the argument types of a message.
+ *
+ * ```ts
+ * const CueGo = defineMessage("/cue/go", ["s", "i"]);
+ *
+ * const packet = CueGo.encode("intro", 1);
+ *
+ * const args = CueGo.match(addr, args); // [string, number] | null
+ * ```
+ */
+export function defineMessage<const Types extends readonly OSCSchemaType[]>(
+    addr: string,
+    types: Types,
+): OSCMessageSchema<Types> {
+    for (const type of types) {
+        if (!Object.hasOwn(SCHEMA_TYPES, type)) {
+            throw new OSCProtocolError({
+                message: `unsupported schema type '${type}'`,
+                addr,
+            });
+        }
+    }
+
+    const typeTags = `,${types.join("")}`;
+    const template = compileOSCTemplate(addr, typeTags);
+    // indices of the values passed to the template (T, F, N, I have no value)
+    const value_indices = types.flatMap((type, i) =>
+        "TFNI".includes(type) ? [] : [i]
+    );
+
+    return {
+        addr,
+        types,
+        typeTags,
+        encode(...args) {
+            return (template as (...args: unknown[]) => Uint8Array)(
+                ...value_indices.map((i) => args[i]),
+            );
+        },
+        match(msg_addr, args) {
+            if (msg_addr !== addr) {
+                return null;
+            }
+            if (args.length !== types.length) {
+                throw new OSCProtocolError({
+                    message:
+                        `expected ${types.length} arguments (${typeTags}), got ${args.length}`,
+                    addr,
+                    args,
+                });
+            }
+            for (let i = 0; i < types.length; i++) {
+                const [name, check] = SCHEMA_TYPES[types[i]];
+                if (!check(args[i])) {
+                    throw new OSCProtocolError({
+                        message: `argument ${i}: expected ${
+                            types[i]
+                        } (${name}), got ${describe(args[i])}`,
+                        addr,
+                        args,
+                        arg_index: i,
+                    });
+                }
+            }
+            return args as OSCSchemaArgs<Types>;
+        },
+    };
+}
+
+function describe(arg: OSCArg): string {
+    if (arg === null) {
+        return "null";
+    }
+    if (typeof arg === "object") {
+        return Array.isArray(arg) ? "array" : arg.constructor.name;
+    }
+    if (typeof arg === "string") {
+        return `string "${arg}"`;
+    }
+    return `${typeof arg} ${arg}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { compileOSCTemplate } from "./oscTemplate.ts";
+import { encodeOSC_UTF8, OSCProtocolError } from "./oscProtocol.ts";
+import { osc, OSCColor, OSCMIDI } from "./oscTypes.ts";
+
+Deno.test("template equals", () => {
+    const fader = compileOSCTemplate("/ch/01/mix/fader", ",f");
+    for (const value of [0, 0.5, 1]) {
+        assertEquals(
+            fader(value),
+            encodeOSC_UTF8("/ch/01/mix/fader", [osc.float(value)]),
+        );
+    }
+
+    const mixed = compileOSCTemplate("/foo/bär", ",isTbdhNSctrmF");
+    const args = [
+        5,
+        "bäz",
+        new Uint8Array([1, 2, 3]),
+        2.5,
+        -5n,
+        "sym",
+        "x",
+        123n,
+        new OSCColor(1, 2, 3, 4),
+        new OSCMIDI(0, 0x90, 60, 127),
+    ] as const;
+    // twice: the template reuses its scratch arrays
+    for (let round = 0; round < 2; round++) {
+        assertEquals(
+            mixed(...args),
+            encodeOSC_UTF8("/foo/bär", [
+                osc.int(args[0]),
+                args[1],
+                true,
+                args[2],
+                osc.double(args[3]),
+                args[4],
+                null,
+                osc.symbol(args[5]),
+                osc.char(args[6]),
+                osc.timetag(args[7]),
+                args[8],
+                args[9],
+                false,
+            ]),
+        );
+    }
+
+    const empty = compileOSCTemplate("/foo", ",");
+    assertEquals(empty(), encodeOSC_UTF8("/foo", []));
+});
+
+Deno.test("template invalid", () => {
+    assertThrows(() => compileOSCTemplate("/foo", "f"), OSCProtocolError);
+    assertThrows(() => compileOSCTemplate("/foo", ",[f]"), OSCProtocolError);
+    assertThrows(() => compileOSCTemplate("/foo", ",x"), OSCProtocolError);
+
+    const fader = compileOSCTemplate("/foo", ",f");
+    // @ts-expect-error wrong number of arguments
+    assertThrows(() => fader(1, 2), OSCProtocolError);
+});
@@ -0,0 +1,172 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ASCII } from "./ascii.ts";
+import { utf8Length } from "./oscEncoder.ts";
+import { align4, OSCProtocolError, writeArgs } from "./oscProtocol.ts";
+import { type OSCColor, type OSCMIDI, OSCSymbol } from "./oscTypes.ts";
+
+/**
+ * Maps a single type tag to the value it consumes
+ */
+type TemplateArg<C extends string> = C extends "i" | "f" | "d" ? [number]
+    : C extends "h" | "t" ? [bigint]
+    : C extends "s" | "S" | "c" ? [string]
+    : C extends "b" ? [Uint8Array]
+    : C extends "r" ? [OSCColor]
+    : C extends "m" ? [OSCMIDI]
+    // T, F, N, I have no value
+    : [];
+
+type TemplateArgs<Tags extends string> = Tags extends `${infer C}${infer Rest}`
+    ? [...TemplateArg<C>, ...TemplateArgs<Rest>]
+    : [];
+
+/**
+ * Arguments of a template compiled from the type tag string `TypeTags` (e.g. `",fs"` => `[number, string]`)
+ */
+export type OSCTemplateArgs<TypeTags extends string> = TypeTags extends
+    `,${infer Tags}` ? TemplateArgs<Tags> : never;
+
+/**
+ * Precompiled message, see {@link compileOSCTemplate}
+ */
+export type OSCTemplate<TypeTags extends string> = (
+    ...args: OSCTemplateArgs<TypeTags>
+) => Uint8Array;
+
+/**
+ * Size of the data of every supported type tag (-1: variable size)
+ */
+const TEMPLATE_TAGS: Partial<Record<string, number>> = {
+    i: 4,
+    f: 4,
+    c: 4,
+    r: 4,
+    m: 4,
+    d: 8,
+    h: 8,
+    t: 8,
+    s: -1,
+    S: -1,
+    b: -1,
+    T: 0,
+    F: 0,
+    N: 0,
+    I: 0,
+};
+
+/**
+ * Precomputes the address and type tag part of a message. The returned function only writes the argument values.
+ * Arrays are not supported. Might throw {@link OSCProtocolError} if the type tags are invalid.
+ *
+ * ```ts
+ * const fader = compileOSCTemplate("/ch/01/mix/fader", ",f");
+ * const packet = fader(0.5);
+ * ```
+ */
+export function compileOSCTemplate<TypeTags extends string>(
+    addr: string,
+    typeTags: TypeTags,
+): OSCTemplate<TypeTags> {
+    if (typeTags.charAt(0) !== ",") {
+        throw new OSCProtocolError({
+            message: `type tags have to start with ','`,
+            addr,
+        });
+    }
+
+    const tt: ASCII[] = [];
+    // index of the argument supplying the value for every type tag (-1: no value)
+    const value_index: number[] = [];
+    const variable: number[] = [];
+    let fixed_size = 0;
+    let value_count = 0;
+
+    for (const tag of typeTags.slice(1)) {
+        const size = TEMPLATE_TAGS[tag];
+        if (size === undefined) {
+            throw new OSCProtocolError({
+                message: `unsupported type tag '${tag}' in template`,
+                addr,
+            });
+        }
+        tt.push(tag.charCodeAt(0));
+        if (size === 0) {
+            value_index.push(-1);
+        } else {
+            value_index.push(value_count);
+            value_count++;
+            if (size === -1) {
+                variable.push(tt.length - 1);
+            } else {
+                fixed_size += size;
+            }
+        }
+    }
+
+    const te = new TextEncoder();
+    const addr_enc = te.encode(addr);
+    const header = new Uint8Array(
+        align4(addr_enc.length + 1) + align4(typeTags.length + 1),
+    );
+    header.set(addr_enc, 0);
+    te.encodeInto(typeTags, header.subarray(align4(addr_enc.length + 1)));
+
+    const values: unknown[] = Array(tt.length).fill(null);
+
+    return (...args) => {
+        if (args.length !== value_count) {
+            throw new OSCProtocolError({
+                message:
+                    `template expects ${value_count} arguments, got ${args.length}`,
+                addr,
+            });
+        }
+        for (let i = 0; i < tt.length; i++) {
+            values[i] = value_index[i] === -1 ? null : args[value_index[i]];
+        }
+
+        let size = header.length + fixed_size;
+        for (const i of variable) {
+            const value = values[i];
+            if (tt[i] === ASCII.b) {
+                size += align4((value as Uint8Array).length) + 4;
+            } else if (value instanceof OSCSymbol) {
+                size += align4(utf8Length(value.symbol) + 1);
+            } else {
+                size += align4(utf8Length(value as string) + 1);
+            }
+        }
+
+        const packet = new Uint8Array(size);
+        packet.set(header, 0);
+        writeArgs(
+            packet,
+            new DataView(packet.buffer),
+            header.length,
+            tt,
+            values,
+            (str, offset) =>
+                te.encodeInto(str, packet.subarray(offset)).written,
+        );
+        return packet;
+    };
+}
@@ -0,0 +1,119 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { formatOSC, parseOSCText } from "./oscText.ts";
+import { encodeOSCBundle } from "./oscBundle.ts";
+import { encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import { osc, OSC_IMPULSE, OSCColor, OSCMIDI } from "./oscTypes.ts";
+
+const lines = [
+    `/foo ,`,
+    `/foo/bar ,ifsb 1 2.5 "hi" #0a0b`,
+    `/quote ,sS "say \\"hi\\"\\n" "sym"`,
+    `/ext ,dhtcrm -0 -5 123 "x" #01020304 #00903c7f`,
+    `/flags ,TFNI`,
+    `/special ,fff NaN Infinity -Infinity`,
+    `/blob ,bb # #00ff`,
+    `/array ,i[i[s]][]T 1 [ 2 [ "x" ] ] [ ]`,
+];
+
+Deno.test("text roundtrip", () => {
+    for (const line of lines) {
+        const msg = parseOSCText(line);
+        assertEquals(formatOSC(encodeOSC(msg.addr, msg.args)), line);
+    }
+});
+
+Deno.test("text format", () => {
+    assertEquals(
+        formatOSC(
+            encodeOSC("/foo/bar", [
+                1,
+                osc.float(2.5),
+                "hi",
+                new Uint8Array([10, 11]),
+                new OSCColor(1, 2, 3, 255),
+                new OSCMIDI(0, 0x90, 60, 127),
+                OSC_IMPULSE,
+            ]),
+        ),
+        `/foo/bar ,ifsbrmI 1 2.5 "hi" #0a0b #010203ff #00903c7f`,
+    );
+    assertEquals(
+        formatOSC(encodeOSCBundle({
+            timetag: 1n,
+            elements: [
+                { addr: "/foo", args: [1] },
+                {
+                    timetag: 2n,
+                    elements: [{ addr: "/bar", args: ["x"] }],
+                },
+            ],
+        })),
+        `#bundle 1\n  /foo ,i 1\n  #bundle 2\n    /bar ,s "x"`,
+    );
+});
+
+Deno.test("text parse", () => {
+    assertEquals(parseOSCText(`  /foo/bar  ,ifsb 1   2.5 "h i" #0a0b `), {
+        addr: "/foo/bar",
+        typeTags: ",ifsb",
+        args: [
+            osc.int(1),
+            osc.float(2.5),
+            osc.string("h i"),
+            osc.blob(new Uint8Array([10, 11])),
+        ],
+    });
+
+    const invalid: [string, string][] = [
+        [`foo ,i 1`, "missing address"],
+        [`/foo i 1`, "missing type tags"],
+        [`/foo ,i`, "missing value for 'i'"],
+        [`/foo ,i 1.5`, "invalid int32 '1.5'"],
+        [`/foo ,i 4294967296`, "invalid int32"],
+        [`/foo ,f x`, "invalid number 'x'"],
+        [`/foo ,s x`, "expected string, got 'x'"],
+        [`/foo ,c "xy"`, "invalid char"],
+        [`/foo ,b #0`, "invalid hex bytes '#0'"],
+        [`/foo ,r #0102`, "expected 4 bytes"],
+        [`/foo ,[i] 1`, "expected '['"],
+        [`/foo ,[i [ 1 ]`, "missing ']' in type tag"],
+        [`/foo ,i] 1 ]`, "unexpected ']' in type tag"],
+        [`/foo ,x 1`, "unknown type tag 'x'"],
+        [`/foo ,i 1 2`, "unexpected '2' after last argument"],
+    ];
+    for (const [line, message] of invalid) {
+        assertThrows(() => parseOSCText(line), OSCProtocolError, message);
+    }
+
+    // the error points at the invalid argument
+    for (
+        const [line, arg_index] of [
+            [`/foo ,ib 1 #0 2`, 1],
+            [`/foo ,ir 1 #01 2`, 1],
+            [`/foo ,isi 1 x 2`, 1],
+        ] as const
+    ) {
+        const e = assertThrows(() => parseOSCText(line), OSCProtocolError);
+        assertEquals(e.desc.arg_index, arg_index, line);
+    }
+});
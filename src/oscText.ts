@@ -0,0 +1,271 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { isOSCBundlePacket, splitOSCBundle } from "./oscBundle.ts";
+import {
+    decodeOSCTyped,
+    type OSCDecoderOptions,
+    type OSCEncodableArg,
+    OSCProtocolError,
+    type OSCTypedMessage,
+} from "./oscProtocol.ts";
+import { OSCColor, OSCMIDI, type OSCTypedArg } from "./oscTypes.ts";
+
+/**
+ * Formats a message or bundle as text, e.g. `/foo/bar ,ifsb 1 2.5 "hi" #0a0b`.
+ *
+ * - numbers, int64 and timetags in decimal
+ * - strings, symbols and chars as JSON string literals
+ * - blobs, colors and MIDI messages as `#` followed by the bytes in hex
+ * - `T`, `F`, `N` and `I` have no value
+ * - arrays in square brackets: `/foo ,i[ii] 1 [ 2 3 ]`
+ *
+ * Bundles are printed as `#bundle <timetag>` followed by their elements, one per line and indented by two spaces.
+ * Might throw {@link OSCProtocolError} if the supplied data is invalid.
+ */
+export function formatOSC(
+    data: Uint8Array,
+    options?: OSCDecoderOptions,
+): string {
+    if (isOSCBundlePacket(data)) {
+        const { timetag, elements } = splitOSCBundle(data);
+        return [
+            `#bundle ${timetag}`,
+            ...elements.flatMap((element) =>
+                formatOSC(element, options).split("\n").map(($) => `  ${$}`)
+            ),
+        ].join("\n");
+    }
+    const { addr, typeTags, args } = decodeOSCTyped(data, options);
+    return [addr, typeTags, ...args.flatMap(formatArg)].join(" ");
+}
+
+function formatArg(arg: OSCTypedArg): string[] {
+    switch (arg.type) {
+        case "i":
+        case "f":
+        case "d":
+            return [Object.is(arg.value, -0) ? "-0" : String(arg.value)];
+        case "h":
+        case "t":
+            return [String(arg.value)];
+        case "s":
+        case "S":
+        case "c":
+            return [JSON.stringify(arg.value)];
+        case "b":
+            return [formatHex(arg.value)];
+        case "r":
+            return [
+                formatHex([arg.value.r, arg.value.g, arg.value.b, arg.value.a]),
+            ];
+        case "m":
+            return [
+                formatHex([
+                    arg.value.port,
+                    arg.value.status,
+                    arg.value.data1,
+                    arg.value.data2,
+                ]),
+            ];
+        case "[":
+            // decodeOSCTyped only produces typed arguments
+            return [
+                "[",
+                ...(arg.value as OSCTypedArg[]).flatMap(formatArg),
+                "]",
+            ];
+        default:
+            // T, F, N, I
+            return [];
+    }
+}
+
+function formatHex(bytes: ArrayLike<number>): string {
+    let hex = "#";
+    for (let i = 0; i < bytes.length; i++) {
+        hex += bytes[i].toString(16).padStart(2, "0");
+    }
+    return hex;
+}
+
+/**
+ * Parses a message printed by {@link formatOSC}. The arguments are typed according to the type tags, so re-encoding
+ * them (`encodeOSC(msg.addr, msg.args)`) yields the original packet.
+ * Throws {@link OSCProtocolError} if the text is invalid.
+ */
+export function parseOSCText(line: string): OSCTypedMessage {
+    const [, addr, typeTags, rest] = /^\s*(\S*)\s*(\S*)(.*)$/s.exec(line)!;
+    const tokens = rest.match(/"(?:[^"\\]|\\.)*"|\[|\]|[^\s"[\]]+/g) ?? [];
+    if (!addr || addr.charAt(0) !== "/") {
+        throw new OSCProtocolError({
+            message: `text: missing address`,
+            addr,
+        });
+    }
+    if (!typeTags || typeTags.charAt(0) !== ",") {
+        throw new OSCProtocolError({
+            message: `text: missing type tags`,
+            addr,
+        });
+    }
+
+    let ti = 1;
+    let tokeni = 0;
+
+    function error(message: string): OSCProtocolError {
+        return new OSCProtocolError({
+            message: `text: ${message}`,
+            addr,
+            arg_index: ti - 1,
+        });
+    }
+
+    function next(): string {
+        if (tokeni >= tokens.length) {
+            throw error(`missing value for '${typeTags[ti]}'`);
+        }
+        return tokens[tokeni++];
+    }
+
+    function parseArgs(array: boolean): OSCTypedArg[] {
+        const args: OSCTypedArg[] = [];
+        while (ti < typeTags.length) {
+            const type = typeTags[ti];
+            if (type === "]") {
+                if (!array) {
+                    throw error(`unexpected ']' in type tag`);
+                }
+                if (next() !== "]") {
+                    throw error(`expected ']'`);
+                }
+                ti++;
+                return args;
+            }
+            args.push(parseArg(type));
+        }
+        if (array) {
+            throw error(`missing ']' in type tag`);
+        }
+        return args;
+    }
+
+    function parseArg(type: string): OSCTypedArg {
+        switch (type) {
+            case "i": {
+                const token = next();
+                const value = Number(token);
+                if (!/^-?\d+$/.test(token) || (value | 0) !== value) {
+                    throw error(`invalid int32 '${token}'`);
+                }
+                ti++;
+                return { type, value };
+            }
+            case "f":
+            case "d": {
+                const token = next();
+                const value = Number(token);
+                if (Number.isNaN(value) && token !== "NaN") {
+                    throw error(`invalid number '${token}'`);
+                }
+                ti++;
+                return { type, value };
+            }
+            case "h":
+            case "t": {
+                const token = next();
+                if (!/^-?\d+$/.test(token)) {
+                    throw error(`invalid integer '${token}'`);
+                }
+                ti++;
+                return { type, value: BigInt(token) };
+            }
+            case "s":
+            case "S":
+            case "c": {
+                const token = next();
+                if (token.charAt(0) !== `"`) {
+                    throw error(`expected string, got '${token}'`);
+                }
+                let value: string;
+                try {
+                    value = JSON.parse(token);
+                } catch {
+                    throw error(`invalid string ${token}`);
+                }
+                if (type === "c" && value.length !== 1) {
+                    throw error(`invalid char ${token}`);
+                }
+                ti++;
+                return { type, value };
+            }
+            case "b": {
+                const value = parseHex(next());
+                ti++;
+                return { type, value };
+            }
+            case "r":
+            case "m": {
+                const bytes = parseHex(next());
+                if (bytes.length !== 4) {
+                    throw error(`expected 4 bytes`);
+                }
+                const [a, b, c, d] = bytes;
+                ti++;
+                return type === "r"
+                    ? { type, value: new OSCColor(a, b, c, d) }
+                    : { type, value: new OSCMIDI(a, b, c, d) };
+            }
+            case "T":
+            case "F":
+            case "N":
+            case "I":
+                ti++;
+                return { type };
+            case "[": {
+                if (next() !== "[") {
+                    throw error(`expected '['`);
+                }
+                ti++;
+                const value: OSCEncodableArg[] = parseArgs(true);
+                return { type, value };
+            }
+            default:
+                throw error(`unknown type tag '${type}'`);
+        }
+    }
+
+    function parseHex(token: string): Uint8Array {
+        if (!/^#(?:[0-9a-f]{2})*$/i.test(token)) {
+            throw error(`invalid hex bytes '${token}'`);
+        }
+        const bytes = new Uint8Array((token.length - 1) / 2);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = parseInt(token.slice(1 + i * 2, 3 + i * 2), 16);
+        }
+        return bytes;
+    }
+
+    const args = parseArgs(false);
+    if (tokeni < tokens.length) {
+        throw error(`unexpected '${tokens[tokeni]}' after last argument`);
+    }
+    return { addr, typeTags, args };
+}
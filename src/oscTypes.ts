@@ -0,0 +1,127 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import type { OSCTimetag } from "./oscBundle.ts";
+import type { OSCEncodableArg } from "./oscProtocol.ts";
+
+/**
+ * OSC timetag argument (t)
+ */
+export class OSCTimetagArg {
+    constructor(readonly timetag: OSCTimetag) {}
+}
+
+/**
+ * OSC ASCII character argument (c), transmitted as 32 bits
+ */
+export class OSCChar {
+    constructor(readonly char: string) {}
+}
+
+/**
+ * OSC 32-bit RGBA color argument (r)
+ */
+export class OSCColor {
+    constructor(
+        readonly r: number,
+        readonly g: number,
+        readonly b: number,
+        readonly a: number,
+    ) {}
+}
+
+/**
+ * OSC 4-byte MIDI message argument (m)
+ */
+export class OSCMIDI {
+    constructor(
+        readonly port: number,
+        readonly status: number,
+        readonly data1: number,
+        readonly data2: number,
+    ) {}
+}
+
+/**
+ * OSC impulse argument (I, also called Infinitum or bang). Has no payload, use {@link OSC_IMPULSE}
+ */
+export class OSCImpulse {}
+
+/**
+ * The {@link OSCImpulse} instance returned by the decoders
+ */
+export const OSC_IMPULSE: OSCImpulse = new OSCImpulse();
+
+/**
+ * OSC symbol argument (S), encoded like a string
+ */
+export class OSCSymbol {
+    constructor(readonly symbol: string) {}
+}
+
+/**
+ * Explicitly typed OSC argument. The encoder uses the given type tag instead of guessing it from the value.
+ */
+export type OSCTypedArg =
+    | { readonly type: "i" | "f" | "d"; readonly value: number }
+    | { readonly type: "h"; readonly value: bigint }
+    | { readonly type: "t"; readonly value: bigint | OSCTimetagArg }
+    | { readonly type: "s"; readonly value: string }
+    | { readonly type: "S"; readonly value: string | OSCSymbol }
+    | { readonly type: "c"; readonly value: string | OSCChar }
+    | { readonly type: "b"; readonly value: Uint8Array }
+    | { readonly type: "r"; readonly value: OSCColor }
+    | { readonly type: "m"; readonly value: OSCMIDI }
+    | { readonly type: "T"; readonly value?: true }
+    | { readonly type: "F"; readonly value?: false }
+    | { readonly type: "N"; readonly value?: null }
+    | { readonly type: "I"; readonly value?: OSCImpulse }
+    | { readonly type: "["; readonly value: readonly OSCEncodableArg[] };
+
+/**
+ * Helper constructors for {@link OSCTypedArg}
+ *
+ * ```ts
+ * encodeOSC("/ch/01/mix/fader", [osc.float(1)]); // ,f instead of ,i
+ * ```
+ */
+export const osc = {
+    int: (value: number) => ({ type: "i", value }) as const,
+    float: (value: number) => ({ type: "f", value }) as const,
+    double: (value: number) => ({ type: "d", value }) as const,
+    int64: (value: bigint) => ({ type: "h", value }) as const,
+    timetag: (value: bigint) => ({ type: "t", value }) as const,
+    string: (value: string) => ({ type: "s", value }) as const,
+    symbol: (value: string) => ({ type: "S", value }) as const,
+    char: (value: string) => ({ type: "c", value }) as const,
+    blob: (value: Uint8Array) => ({ type: "b", value }) as const,
+    color: (r: number, g: number, b: number, a: number) =>
+        ({ type: "r", value: new OSCColor(r, g, b, a) }) as const,
+    midi: (port: number, status: number, data1: number, data2: number) =>
+        ({
+            type: "m",
+            value: new OSCMIDI(port, status, data1, data2),
+        }) as const,
+    bool: (value: boolean) => ({ type: value ? "T" : "F" }) as OSCTypedArg,
+    nil: () => ({ type: "N" }) as const,
+    impulse: () => ({ type: "I" }) as const,
+    array: (value: readonly OSCEncodableArg[]) =>
+        ({ type: "[", value }) as const,
+} as const;
@@ -0,0 +1,222 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { encodeSLIP } from "@deno-plc/slip";
+import { type OSCArgs, TCPOSCAdapter } from "../mod.ts";
+import { OSCManualClock } from "./clock.ts";
+import {
+    decodeOSCRecording,
+    encodeOSCRecording,
+    OSCPlayer,
+    type OSCRecord,
+    OSCRecorder,
+} from "./recording.ts";
+import { encodeOSCBundle } from "./oscBundle.ts";
+import { decodeOSC, encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+
+class TestAdapter extends TCPOSCAdapter {
+    protected on_packet(_addr: string, _args: OSCArgs): void {}
+    protected on_destroy(): void {}
+}
+
+Deno.test("manual clock", () => {
+    const clock = new OSCManualClock(100);
+    const calls: string[] = [];
+    clock.schedule(() => calls.push(`b ${clock.now()}`), 20);
+    clock.schedule(() => {
+        calls.push(`a ${clock.now()}`);
+        clock.schedule(() => calls.push(`c ${clock.now()}`), 5);
+    }, 10);
+    const cancel = clock.schedule(() => calls.push("cancelled"), 15);
+    cancel();
+    clock.advance(14);
+    assertEquals(calls, ["a 110"]);
+    assertEquals(clock.now(), 114);
+    clock.advance(100);
+    assertEquals(calls, ["a 110", "c 115", "b 120"]);
+    assertEquals(clock.now(), 214);
+    assertEquals(clock.pending, 0);
+});
+
+Deno.test("recording format", () => {
+    const records: OSCRecord[] = [
+        { time: 0, direction: "in", packet: encodeOSC("/foo", [1]) },
+        { time: 12.5, direction: "out", packet: encodeOSC("/bar", []) },
+    ];
+    const data = encodeOSCRecording(records);
+    assertEquals(decodeOSCRecording(data), records);
+    assertEquals(decodeOSCRecording(encodeOSCRecording([])), []);
+
+    assertThrows(
+        () => decodeOSCRecording(new Uint8Array(8)),
+        OSCProtocolError,
+        "missing recording header",
+    );
+    assertThrows(
+        () => decodeOSCRecording(data.subarray(0, data.length - 4)),
+        OSCProtocolError,
+        "invalid recording entry",
+    );
+    assertThrows(
+        () => decodeOSCRecording(data.subarray(0, 20)),
+        OSCProtocolError,
+        "truncated recording entry",
+    );
+
+    // size close to 2^31 (padding would overflow int32)
+    const huge = data.slice();
+    new DataView(huge.buffer).setInt32(8 + 12, 0x7fffffff, false);
+    assertThrows(
+        () => decodeOSCRecording(huge),
+        OSCProtocolError,
+        "invalid recording entry",
+    );
+});
+
+Deno.test("recorder tap", () => {
+    const clock = new OSCManualClock(1000);
+    const chunks: Uint8Array[] = [];
+    const recorder = new OSCRecorder((chunk) => chunks.push(chunk), { clock });
+    const adapter = new TestAdapter(() => {}, { tap: recorder.tap });
+
+    clock.advance(5);
+    adapter.recv(encodeSLIP(encodeOSC("/foo", [1])));
+    clock.advance(10);
+    adapter.send("/bar", ["baz"]);
+    // the encoder reuses its buffer
+    adapter.send("/qux", []);
+
+    const records = decodeOSCRecording(
+        new Uint8Array(chunks.flatMap(($) => [...$])),
+    );
+    assertEquals(
+        records.map(($) => [$.time, $.direction, decodeOSC($.packet)]),
+        [
+            [5, "in", ["/foo", [1]]],
+            [15, "out", ["/bar", ["baz"]]],
+            [15, "out", ["/qux", []]],
+        ],
+    );
+});
+
+Deno.test("player", async () => {
+    const records: OSCRecord[] = [
+        { time: 10, direction: "in", packet: encodeOSC("/a/1", []) },
+        { time: 20, direction: "out", packet: encodeOSC("/a/2", []) },
+        { time: 30, direction: "in", packet: encodeOSC("/b/1", []) },
+        {
+            time: 40,
+            direction: "in",
+            packet: encodeOSCBundle({
+                timetag: 1n,
+                elements: [{ addr: "/a/3", args: [] }],
+            }),
+        },
+    ];
+    const clock = new OSCManualClock();
+    const played: string[] = [];
+    const target = (packet: Uint8Array) => {
+        const addr = packet[0] === 35 ? "#bundle" : decodeOSC(packet)[0];
+        played.push(`${clock.now()} ${addr}`);
+    };
+
+    // speed, default direction filter
+    const player = new OSCPlayer(records, target, { clock, speed: 2 });
+    const done = player.play();
+    assertEquals(player.playing, true);
+    clock.advance(100);
+    await done;
+    assertEquals(player.playing, false);
+    assertEquals(played, ["5 /a/1", "15 /b/1", "20 #bundle"]);
+
+    // address filter, both directions, send_packet target
+    played.length = 0;
+    const adapter = { send_packet: target };
+    const filtered = new OSCPlayer(records, adapter, {
+        clock,
+        direction: null,
+        addresses: ["/a/*"],
+    });
+    const filtered_done = filtered.play();
+    clock.advance(100);
+    await filtered_done;
+    assertEquals(played, ["110 /a/1", "120 /a/2", "140 #bundle"]);
+
+    // loop and stop
+    played.length = 0;
+    const looped = new OSCPlayer(records.slice(0, 1), target, {
+        clock,
+        loop: true,
+    });
+    const looped_done = looped.play();
+    clock.advance(35);
+    looped.stop();
+    await looped_done;
+    clock.advance(100);
+    assertEquals(played, ["210 /a/1", "220 /a/1", "230 /a/1"]);
+    assertEquals(clock.pending, 0);
+
+    assertThrows(() => new OSCPlayer(records, target, { speed: 0 }));
+});
+
+Deno.test("player target errors", async () => {
+    const records: OSCRecord[] = [
+        { time: 10, direction: "in", packet: encodeOSC("/a", []) },
+        { time: 20, direction: "in", packet: encodeOSC("/b", []) },
+        { time: 30, direction: "in", packet: encodeOSC("/c", []) },
+    ];
+    const clock = new OSCManualClock();
+    const played: string[] = [];
+
+    // throwing target
+    const player = new OSCPlayer(records, (packet) => {
+        const [addr] = decodeOSC(packet);
+        played.push(addr);
+        if (addr === "/b") {
+            throw new Error("send failed");
+        }
+    }, { clock });
+    const done = player.play();
+    clock.advance(100);
+    await assertRejects(() => done, Error, "send failed");
+    assertEquals(player.playing, false);
+    assertEquals(played, ["/a", "/b"]);
+    assertEquals(clock.pending, 0);
+
+    // rejecting target
+    played.length = 0;
+    const rejected = Promise.withResolvers<void>();
+    const async_player = new OSCPlayer(records, {
+        send_packet(packet: Uint8Array) {
+            const [addr] = decodeOSC(packet);
+            played.push(addr);
+            return addr === "/a" ? rejected.promise : Promise.resolve();
+        },
+    }, { clock });
+    const async_done = async_player.play();
+    clock.advance(15);
+    rejected.reject(new Error("send failed"));
+    await assertRejects(() => async_done, Error, "send failed");
+    assertEquals(async_player.playing, false);
+    clock.advance(100);
+    assertEquals(played, ["/a"]);
+    assertEquals(clock.pending, 0);
+});
@@ -0,0 +1,372 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_SYSTEM_CLOCK, type OSCClock } from "./clock.ts";
+import {
+    decodeOSCPacket,
+    isOSCBundlePacket,
+    unpackOSCBundle,
+} from "./oscBundle.ts";
+import { OSCMessageView } from "./oscMessageView.ts";
+import { OSCAddressPattern } from "./oscPattern.ts";
+import { align4, OSCProtocolError } from "./oscProtocol.ts";
+
+/**
+ * `in`: received, `out`: sent
+ */
+export type OSCPacketDirection = "in" | "out";
+
+/**
+ * Called with every raw packet (without framing) an adapter receives or sends. The packet might be a view of a buffer
+ * that is reused, copy it if it is used after the call returned.
+ */
+export type OSCPacketTap = (
+    packet: Uint8Array,
+    direction: OSCPacketDirection,
+) => void;
+
+/**
+ * A recorded packet
+ */
+export interface OSCRecord {
+    /**
+     * Milliseconds since the start of the recording
+     */
+    time: number;
+    direction: OSCPacketDirection;
+    packet: Uint8Array;
+}
+
+/**
+ * `#oscrec\0`
+ *
+ * Recording file format (all numbers big-endian):
+ * - header: `#oscrec\0` (8 bytes)
+ * - one entry per packet:
+ *   - float64: milliseconds since the start of the recording
+ *   - int32: direction (0: received, 1: sent)
+ *   - int32: packet size
+ *   - the raw packet, zero padded to a multiple of 4 bytes
+ */
+export const OSC_RECORDING_HEADER: Uint8Array = new Uint8Array([
+    35,
+    111,
+    115,
+    99,
+    114,
+    101,
+    99,
+    0,
+]);
+
+/**
+ * Encodes a single entry of a recording (see {@link OSC_RECORDING_HEADER} for the format)
+ */
+export function encodeOSCRecord(record: OSCRecord): Uint8Array {
+    const size = record.packet.length;
+    const entry = new Uint8Array(16 + align4(size));
+    const dv = new DataView(entry.buffer);
+    dv.setFloat64(0, record.time, false);
+    dv.setInt32(8, record.direction === "in" ? 0 : 1, false);
+    dv.setInt32(12, size, false);
+    entry.set(record.packet, 16);
+    return entry;
+}
+
+/**
+ * Encodes a complete recording (header and entries)
+ */
+export function encodeOSCRecording(records: Iterable<OSCRecord>): Uint8Array {
+    const entries = [
+        OSC_RECORDING_HEADER,
+        ...[...records].map(encodeOSCRecord),
+    ];
+    const data = new Uint8Array(
+        entries.reduce((size, entry) => size + entry.length, 0),
+    );
+    let offset = 0;
+    for (const entry of entries) {
+        data.set(entry, offset);
+        offset += entry.length;
+    }
+    return data;
+}
+
+/**
+ * Parses a recording. Packets are views of `data`. Might throw {@link OSCProtocolError} if the file is invalid
+ */
+export function decodeOSCRecording(data: Uint8Array): OSCRecord[] {
+    if (
+        data.length < OSC_RECORDING_HEADER.length ||
+        OSC_RECORDING_HEADER.some(($, i) => data[i] !== $)
+    ) {
+        throw new OSCProtocolError({
+            message: `missing recording header`,
+            packet: data,
+        });
+    }
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const records: OSCRecord[] = [];
+    let offset = OSC_RECORDING_HEADER.length;
+    while (offset < data.length) {
+        if (offset + 16 > data.length) {
+            throw new OSCProtocolError({
+                message: `truncated recording entry`,
+                packet: data,
+                offset,
+            });
+        }
+        const time = dv.getFloat64(offset, false);
+        const direction = dv.getInt32(offset + 8, false);
+        const size = dv.getInt32(offset + 12, false);
+        if (
+            (direction !== 0 && direction !== 1) || size < 0 ||
+            // compared before align4, which overflows for sizes close to 2^31
+            size > data.length - offset - 16 ||
+            offset + 16 + align4(size) > data.length
+        ) {
+            throw new OSCProtocolError({
+                message: `invalid recording entry`,
+                packet: data,
+                offset,
+            });
+        }
+        records.push({
+            time,
+            direction: direction === 0 ? "in" : "out",
+            packet: data.subarray(offset + 16, offset + 16 + size),
+        });
+        offset += 16 + align4(size);
+    }
+    return records;
+}
+
+export interface OSCRecorderOptions {
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+/**
+ * Writes timestamped packets in the recording format (see {@link OSC_RECORDING_HEADER}).
+ * The header is written immediately, every packet is written as soon as it is recorded.
+ *
+ * ```ts
+ * const file = await Deno.open("show.oscrec", { write: true, create: true });
+ * const recorder = new OSCRecorder((chunk) => file.writeSync(chunk));
+ * const session = new MySession(send, { tap: recorder.tap });
+ * ```
+ */
+export class OSCRecorder {
+    constructor(
+        write: (chunk: Uint8Array) => void,
+        options: OSCRecorderOptions = {},
+    ) {
+        this.#write = write;
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+        this.#start = this.#clock.now();
+        write(OSC_RECORDING_HEADER);
+    }
+    readonly #write: (chunk: Uint8Array) => void;
+    readonly #clock: OSCClock;
+    readonly #start: number;
+
+    /**
+     * Records a packet
+     */
+    record(packet: Uint8Array, direction: OSCPacketDirection = "in"): void {
+        this.#write(encodeOSCRecord({
+            time: this.#clock.now() - this.#start,
+            direction,
+            packet,
+        }));
+    }
+
+    /**
+     * {@link OSCRecorder.record} bound to the recorder, to be passed as `tap` option of the adapters
+     */
+    readonly tap: OSCPacketTap = (packet, direction) =>
+        this.record(packet, direction);
+}
+
+/**
+ * Receives the packets replayed by {@link OSCPlayer}: a callback or an adapter
+ */
+export type OSCPlayerTarget =
+    | ((packet: Uint8Array) => unknown)
+    | { send_packet(packet: Uint8Array): unknown };
+
+export interface OSCPlayerOptions {
+    /**
+     * Playback speed factor (default: 1, 2 = twice as fast)
+     */
+    speed?: number;
+    /**
+     * Start over after the last packet (default: false)
+     */
+    loop?: boolean;
+    /**
+     * Only replay messages matching one of these address patterns. A bundle is replayed if any of its messages matches.
+     */
+    addresses?: string[];
+    /**
+     * Only replay packets of this direction (default: `in`, use `null` for both)
+     */
+    direction?: OSCPacketDirection | null;
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+/**
+ * Replays a recording at the original timing
+ *
+ * ```ts
+ * const player = new OSCPlayer(decodeOSCRecording(await Deno.readFile("show.oscrec")), session, {
+ *     speed: 2,
+ *     addresses: ["/ch/*\/mix/fader"],
+ * });
+ * await player.play();
+ * ```
+ */
+export class OSCPlayer {
+    constructor(
+        records: readonly OSCRecord[],
+        target: OSCPlayerTarget,
+        options: OSCPlayerOptions = {},
+    ) {
+        const speed = options.speed ?? 1;
+        if (!(speed > 0)) {
+            throw new Error(`OSCPlayer: speed must be > 0`);
+        }
+        this.#speed = speed;
+        this.#loop = options.loop ?? false;
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+        this.#deliver = typeof target === "function"
+            ? target
+            : (packet) => target.send_packet(packet);
+
+        const direction = options.direction === undefined
+            ? "in"
+            : options.direction;
+        const patterns = options.addresses?.map(($) =>
+            new OSCAddressPattern($)
+        );
+        this.#records = records.filter((record) =>
+            (direction === null || record.direction === direction) &&
+            (!patterns || matchesAny(record.packet, patterns))
+        );
+    }
+    readonly #records: readonly OSCRecord[];
+    readonly #speed: number;
+    readonly #loop: boolean;
+    readonly #clock: OSCClock;
+    readonly #deliver: (packet: Uint8Array) => unknown;
+
+    #cancel: (() => void) | null = null;
+    #done: (() => void) | null = null;
+
+    /**
+     * `true` while playing
+     */
+    get playing(): boolean {
+        return this.#done !== null;
+    }
+
+    /**
+     * Starts playing from the beginning. Resolves when the last packet has been played or {@link OSCPlayer.stop} is called.
+     * If the target throws (or returns a rejected promise), playback stops and the promise rejects with the error.
+     */
+    play(): Promise<void> {
+        this.stop();
+        return new Promise((resolve, reject) => {
+            this.#done = resolve;
+            const fail = (error: unknown) => {
+                // ignored if stopped or restarted in the meantime
+                if (this.#done !== resolve) {
+                    return;
+                }
+                this.#cancel?.();
+                this.#cancel = null;
+                this.#done = null;
+                reject(error);
+            };
+            const start = this.#clock.now();
+            // recording time at which the current iteration started
+            let offset = 0;
+            let index = 0;
+
+            const next = () => {
+                if (index === this.#records.length) {
+                    if (!this.#loop || this.#records.length === 0) {
+                        this.stop();
+                        return;
+                    }
+                    index = 0;
+                    // at least 1ms per iteration, otherwise a recording with all packets at 0 would loop forever
+                    offset += Math.max(this.#records.at(-1)!.time, 1);
+                }
+                const record = this.#records[index++];
+                const due = start + (offset + record.time) / this.#speed;
+                this.#cancel = this.#clock.schedule(() => {
+                    this.#cancel = null;
+                    try {
+                        const result = this.#deliver(record.packet);
+                        if (result instanceof Promise) {
+                            result.catch(fail);
+                        }
+                    } catch (e) {
+                        fail(e);
+                        return;
+                    }
+                    if (this.#done) {
+                        next();
+                    }
+                }, due - this.#clock.now());
+            };
+            next();
+        });
+    }
+
+    /**
+     * Stops playing
+     */
+    stop(): void {
+        this.#cancel?.();
+        this.#cancel = null;
+        const done = this.#done;
+        this.#done = null;
+        done?.();
+    }
+}
+
+function matchesAny(packet: Uint8Array, patterns: OSCAddressPattern[]) {
+    try {
+        const addrs = isOSCBundlePacket(packet)
+            ? [...unpackOSCBundle(decodeOSCPacket(packet))].map(($) => $.addr)
+            : [new OSCMessageView(packet).address];
+        return addrs.some((addr) => patterns.some(($) => $.test(addr)));
+    } catch {
+        // invalid packets have no address
+        return false;
+    }
+}
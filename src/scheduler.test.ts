@@ -0,0 +1,62 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals } from "@std/assert";
+import { millisToOSCTimetag } from "./timetag.ts";
+import { OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+import { OSCScheduler } from "./scheduler.ts";
+import { OSCManualClock } from "./clock.ts";
+
+Deno.test("scheduler", () => {
+    const clock = new OSCManualClock(1000);
+    const delivered: string[] = [];
+    const scheduler = new OSCScheduler<string>(($) => delivered.push($), {
+        clock,
+    });
+
+    scheduler.schedule(millisToOSCTimetag(1200), "c");
+    scheduler.schedule(millisToOSCTimetag(1100), "a");
+    scheduler.schedule(millisToOSCTimetag(1100), "b");
+    assertEquals(scheduler.pending, 3);
+
+    // due items are delivered synchronously
+    scheduler.schedule(OSC_TIMETAG_IMMEDIATELY, "now");
+    scheduler.schedule(millisToOSCTimetag(900), "late");
+    assertEquals(delivered, ["now", "late"]);
+
+    clock.advance(99);
+    assertEquals(delivered, ["now", "late"]);
+    clock.advance(1);
+    assertEquals(delivered, ["now", "late", "a", "b"]);
+    clock.advance(100);
+    assertEquals(delivered, ["now", "late", "a", "b", "c"]);
+    assertEquals(clock.pending, 0);
+
+    scheduler.schedule(millisToOSCTimetag(2000), "flushed");
+    scheduler.schedule(millisToOSCTimetag(1500), "first");
+    scheduler.flush();
+    assertEquals(delivered.slice(5), ["first", "flushed"]);
+
+    scheduler.schedule(millisToOSCTimetag(2000), "cleared");
+    scheduler.clear();
+    clock.advance(10000);
+    assertEquals(delivered.length, 7);
+    assertEquals(clock.pending, 0);
+});
@@ -0,0 +1,136 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_SYSTEM_CLOCK, type OSCClock } from "./clock.ts";
+import type { OSCTimetag } from "./oscBundle.ts";
+import { isOSCTimetagImmediate, oscTimetagToMillis } from "./timetag.ts";
+
+/**
+ * Maximum delay of `setTimeout` (about 24.8 days)
+ */
+const MAX_DELAY = 2 ** 31 - 1;
+
+export interface OSCSchedulerOptions {
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+/**
+ * Holds items (e.g. bundles or their messages) until their timetag and delivers them in order of their timetags.
+ * Items with the same timetag are delivered in the order they were scheduled. Items that are due (or "immediately")
+ * are delivered synchronously by {@link OSCScheduler.schedule}.
+ *
+ * ```ts
+ * const scheduler = new OSCScheduler((packet: Uint8Array) => session.send_packet(packet));
+ * const bundle = { timetag: millisToOSCTimetag(Date.now() + 500), elements: [{ addr: "/cue/go", args: [] }] };
+ * scheduler.schedule(bundle.timetag, encodeOSCBundle(bundle));
+ * ```
+ */
+export class OSCScheduler<T> {
+    constructor(
+        deliver: (item: T) => void,
+        options: OSCSchedulerOptions = {},
+    ) {
+        this.#deliver = deliver;
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+    }
+    readonly #deliver: (item: T) => void;
+    readonly #clock: OSCClock;
+
+    /**
+     * Sorted by time, then by order of scheduling
+     */
+    #queue: { time: number; item: T }[] = [];
+    #cancel_timer: (() => void) | null = null;
+
+    /**
+     * Number of items waiting for their timetag
+     */
+    get pending(): number {
+        return this.#queue.length;
+    }
+
+    /**
+     * Delivers the item at the time of the timetag
+     */
+    schedule(timetag: OSCTimetag, item: T): void {
+        const time = isOSCTimetagImmediate(timetag)
+            ? -Infinity
+            : oscTimetagToMillis(timetag);
+        if (time <= this.#clock.now() && this.#queue.length === 0) {
+            this.#deliver(item);
+            return;
+        }
+        let index = this.#queue.length;
+        while (index > 0 && this.#queue[index - 1].time > time) {
+            index--;
+        }
+        this.#queue.splice(index, 0, { time, item });
+        this.#run();
+    }
+
+    /**
+     * Delivers all pending items immediately (in order)
+     */
+    flush(): void {
+        this.#cancel();
+        for (const { item } of this.#queue.splice(0)) {
+            this.#deliver(item);
+        }
+    }
+
+    /**
+     * Discards all pending items
+     */
+    clear(): void {
+        this.#cancel();
+        this.#queue = [];
+    }
+
+    /**
+     * Delivers the due items and waits for the next one
+     */
+    #run() {
+        while (
+            this.#queue.length > 0 && this.#queue[0].time <= this.#clock.now()
+        ) {
+            this.#deliver(this.#queue.shift()!.item);
+        }
+        // items delivered might have scheduled new items (and a timer)
+        this.#cancel();
+        if (this.#queue.length > 0) {
+            this.#cancel_timer = this.#clock.schedule(
+                () => {
+                    this.#cancel_timer = null;
+                    this.#run();
+                },
+                // larger delays would fire immediately, the timer is simply restarted
+                Math.min(this.#queue[0].time - this.#clock.now(), MAX_DELAY),
+            );
+        }
+    }
+
+    #cancel() {
+        this.#cancel_timer?.();
+        this.#cancel_timer = null;
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { OSCManualClock } from "./clock.ts";
+import { OSCSendQueue } from "./sendQueue.ts";
+import { decodeOSCPacket, isOSCBundlePacket } from "./oscBundle.ts";
+import { decodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import { formatOSC } from "./oscText.ts";
+
+function setup(options: ConstructorParameters<typeof OSCSendQueue>[1] = {}) {
+    const clock = new OSCManualClock();
+    const sent: string[] = [];
+    const queue = new OSCSendQueue(
+        (packet) => sent.push(`${clock.now()} ${formatOSC(packet)}`),
+        { clock, ...options },
+    );
+    return { clock, sent, queue };
+}
+
+Deno.test("send queue coalesce and rate", () => {
+    const { clock, sent, queue } = setup({ interval: 50 });
+
+    // the first message is sent without delay
+    queue.send("/fader/1", [1]);
+    clock.advance(0);
+    assertEquals(sent, ["0 /fader/1 ,i 1"]);
+
+    queue.send("/fader/1", [2]);
+    queue.send("/fader/2", [1]);
+    queue.send("/fader/1", [3]);
+    assertEquals(queue.pending, 2);
+    clock.advance(49);
+    assertEquals(sent.length, 1);
+    clock.advance(1);
+    assertEquals(sent, [
+        "0 /fader/1 ,i 1",
+        "50 /fader/1 ,i 3",
+        "50 /fader/2 ,i 1",
+    ]);
+    assertEquals(queue.pending, 0);
+
+    // idle for longer than the interval
+    clock.advance(100);
+    queue.send("/fader/1", [4]);
+    clock.advance(0);
+    assertEquals(sent.at(-1), "150 /fader/1 ,i 4");
+
+    queue.send("/fader/1", [5]);
+    queue.flush();
+    assertEquals(sent.at(-1), "150 /fader/1 ,i 5");
+    queue.send("/fader/1", [6]);
+    queue.clear();
+    clock.advance(1000);
+    assertEquals(sent.length, 5);
+    assertEquals(clock.pending, 0);
+
+    assertThrows(() => queue.send("/foo", [{}] as never), OSCProtocolError);
+});
+
+Deno.test("send queue ordered", () => {
+    const { clock, sent, queue } = setup({ ordered: ["/cue/*"] });
+    queue.send("/fader", [1]);
+    queue.send("/cue/go", []);
+    queue.send("/fader", [2]);
+    queue.send("/cue/go", []);
+    queue.send("/fader", [3]);
+    queue.send("/fader", [4]);
+    clock.advance(0);
+    assertEquals(sent, [
+        "0 /fader ,i 1",
+        "0 /cue/go ,",
+        "0 /fader ,i 2",
+        "0 /cue/go ,",
+        "0 /fader ,i 4",
+    ]);
+});
+
+Deno.test("send queue bundle", () => {
+    const packets: Uint8Array[] = [];
+    const clock = new OSCManualClock();
+    const queue = new OSCSendQueue((packet) => packets.push(packet), {
+        clock,
+        bundle: true,
+    });
+    queue.send("/a", [1]);
+    queue.send("/b", ["x"]);
+    queue.send("/a", [2]);
+    clock.advance(0);
+    assertEquals(packets.length, 1);
+    assertEquals(isOSCBundlePacket(packets[0]), true);
+    assertEquals(decodeOSCPacket(packets[0]), {
+        timetag: 1n,
+        elements: [{ addr: "/a", args: [2] }, { addr: "/b", args: ["x"] }],
+    });
+    assertEquals(decodeOSC(packets[0].subarray(20, 32)), ["/a", [2]]);
+});
@@ -0,0 +1,168 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_SYSTEM_CLOCK, type OSCClock } from "./clock.ts";
+import { assembleOSCBundle, OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+import { OSCAddressPattern } from "./oscPattern.ts";
+import { encodeOSC_UTF8, type OSCEncodableArgs } from "./oscProtocol.ts";
+
+export interface OSCSendQueueOptions {
+    /**
+     * Minimum time between two flushes in milliseconds (default: 20)
+     */
+    interval?: number;
+    /**
+     * Send all messages of a flush as one bundle (default: false)
+     */
+    bundle?: boolean;
+    /**
+     * Address patterns of messages that are never coalesced (e.g. triggers). They are sent in order and
+     * messages queued before them are not merged with messages queued after them.
+     */
+    ordered?: string[];
+    /**
+     * default: {@link OSC_SYSTEM_CLOCK}
+     */
+    clock?: OSCClock;
+}
+
+/**
+ * Rate limited send queue. Messages to the same address are coalesced, only the latest value is sent.
+ *
+ * ```ts
+ * const queue = new OSCSendQueue((packet) => session.send_packet(packet), { interval: 50 });
+ * queue.send("/ch/01/mix/fader", [0.5]);
+ * queue.send("/ch/01/mix/fader", [0.6]); // replaces 0.5
+ * ```
+ */
+export class OSCSendQueue {
+    constructor(
+        sink: (packet: Uint8Array) => void,
+        options: OSCSendQueueOptions = {},
+    ) {
+        this.#sink = sink;
+        this.#interval = options.interval ?? 20;
+        this.#bundle = options.bundle ?? false;
+        this.#ordered = (options.ordered ?? []).map(($) =>
+            new OSCAddressPattern($)
+        );
+        this.#clock = options.clock ?? OSC_SYSTEM_CLOCK;
+    }
+    readonly #sink: (packet: Uint8Array) => void;
+    readonly #interval: number;
+    readonly #bundle: boolean;
+    readonly #ordered: OSCAddressPattern[];
+    readonly #clock: OSCClock;
+
+    /**
+     * Encoded messages in order of first queueing
+     */
+    #queue: { packet: Uint8Array }[] = [];
+    /**
+     * Coalescable entries queued after the last ordered message
+     */
+    readonly #coalesce = new Map<string, { packet: Uint8Array }>();
+    /**
+     * Cache of addresses matching {@link OSCSendQueueOptions.ordered}
+     */
+    readonly #is_ordered = new Map<string, boolean>();
+    #last_flush = -Infinity;
+    #cancel: (() => void) | null = null;
+
+    /**
+     * Number of messages waiting to be sent
+     */
+    get pending(): number {
+        return this.#queue.length;
+    }
+
+    /**
+     * Queues a message. The message is encoded immediately, so invalid arguments throw here.
+     */
+    send(addr: string, args: OSCEncodableArgs = []): void {
+        const packet = encodeOSC_UTF8(addr, args);
+        if (this.#isOrdered(addr)) {
+            this.#queue.push({ packet });
+            // nothing queued before this message is merged with later ones
+            this.#coalesce.clear();
+        } else {
+            const entry = this.#coalesce.get(addr);
+            if (entry) {
+                // keeps its position in the queue
+                entry.packet = packet;
+            } else {
+                const entry = { packet };
+                this.#queue.push(entry);
+                this.#coalesce.set(addr, entry);
+            }
+        }
+
+        if (!this.#cancel) {
+            this.#cancel = this.#clock.schedule(
+                () => this.flush(),
+                this.#last_flush + this.#interval - this.#clock.now(),
+            );
+        }
+    }
+
+    /**
+     * Sends all queued messages now
+     */
+    flush(): void {
+        this.#cancel?.();
+        this.#cancel = null;
+        if (this.#queue.length === 0) {
+            return;
+        }
+        this.#last_flush = this.#clock.now();
+        const packets = this.#queue.map(($) => $.packet);
+        this.#queue = [];
+        this.#coalesce.clear();
+        if (this.#bundle) {
+            this.#sink(assembleOSCBundle(OSC_TIMETAG_IMMEDIATELY, packets));
+        } else {
+            for (const packet of packets) {
+                this.#sink(packet);
+            }
+        }
+    }
+
+    /**
+     * Discards all queued messages
+     */
+    clear(): void {
+        this.#cancel?.();
+        this.#cancel = null;
+        this.#queue = [];
+        this.#coalesce.clear();
+    }
+
+    #isOrdered(addr: string): boolean {
+        if (this.#ordered.length === 0) {
+            return false;
+        }
+        let ordered = this.#is_ordered.get(addr);
+        if (ordered === undefined) {
+            ordered = this.#ordered.some(($) => $.test(addr));
+            this.#is_ordered.set(addr, ordered);
+        }
+        return ordered;
+    }
+}
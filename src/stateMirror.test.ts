@@ -0,0 +1,99 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { OSCStateMirror } from "./stateMirror.ts";
+import { encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import { encodeOSCBundle, OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+import { defineMessage } from "./oscSchema.ts";
+import { osc } from "./oscTypes.ts";
+
+Deno.test("state mirror get", () => {
+    const mirror = new OSCStateMirror();
+    mirror.record(encodeOSC("/a", [1]));
+    mirror.record(encodeOSC("/b", ["x"]), "out");
+    mirror.record(
+        encodeOSCBundle({
+            timetag: OSC_TIMETAG_IMMEDIATELY,
+            elements: [{ addr: "/a", args: [2] }, { addr: "/c", args: [] }],
+        }),
+    );
+    assertEquals(mirror.get("/a"), [2]);
+    assertEquals(mirror.get("/b"), ["x"]);
+    assertEquals(mirror.get("/d"), undefined);
+    assertEquals([...mirror.entries()], [
+        ["/a", [2]],
+        ["/b", ["x"]],
+        ["/c", []],
+    ]);
+
+    const Fader = defineMessage("/a", ["i"]);
+    const value: [number] | undefined = mirror.get(Fader);
+    assertEquals(value, [2]);
+    mirror.record(encodeOSC("/a", ["wrong"]));
+    assertThrows(() => mirror.get(Fader), OSCProtocolError);
+});
+
+Deno.test("state mirror subscribe", () => {
+    const mirror = new OSCStateMirror();
+    const changes: unknown[] = [];
+    const off = mirror.subscribe("/ch/*/fader", (args, change) => {
+        changes.push([args, change]);
+    });
+    mirror.record(encodeOSC("/ch/01/fader", [0.5]));
+    // unchanged value
+    mirror.record(encodeOSC("/ch/01/fader", [0.5]), "out");
+    mirror.record(encodeOSC("/ch/02/fader", [0.25]), "out");
+    mirror.record(encodeOSC("/ch/02/mute", [true]));
+    off();
+    mirror.record(encodeOSC("/ch/01/fader", [1]));
+    assertEquals(changes, [
+        [[0.5], { addr: "/ch/01/fader", params: ["01"], direction: "in" }],
+        [[0.25], { addr: "/ch/02/fader", params: ["02"], direction: "out" }],
+    ]);
+
+    const Mute = defineMessage("/ch/02/mute", ["T"]);
+    const mutes: true[] = [];
+    mirror.subscribe(Mute, ([mute]) => mutes.push(mute));
+    // skipped
+    mirror.record(encodeOSC("/ch/02/mute", [false]));
+    mirror.record(encodeOSC("/ch/02/mute", [true]));
+    assertEquals(mutes, [true]);
+});
+
+Deno.test("state mirror replay", () => {
+    const mirror = new OSCStateMirror({ replay: ["/ch/*/fader"] });
+    mirror.record(encodeOSC("/ch/01/fader", [osc.float(1)]));
+    mirror.record(encodeOSC("/ch/01/name", ["kick"]));
+    mirror.record(encodeOSC("/ch/02/fader", [0.5]), "out");
+
+    const sent: Uint8Array[] = [];
+    mirror.replay({ send_packet: (packet) => sent.push(packet) });
+    // the original type tags are kept
+    assertEquals(sent, [
+        encodeOSC("/ch/01/fader", [osc.float(1)]),
+        encodeOSC("/ch/02/fader", [0.5]),
+    ]);
+
+    mirror.delete("/ch/01/fader");
+    sent.length = 0;
+    mirror.replay({ send_packet: (packet) => sent.push(packet) });
+    assertEquals(sent.length, 1);
+});
@@ -0,0 +1,252 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { isOSCBundlePacket, splitOSCBundle } from "./oscBundle.ts";
+import { OSCAddressPattern } from "./oscPattern.ts";
+import { decodeOSC, type OSCArgs } from "./oscProtocol.ts";
+import type { OSCPacketDirection } from "./recording.ts";
+import type {
+    OSCMessageSchema,
+    OSCSchemaArgs,
+    OSCSchemaType,
+} from "./oscSchema.ts";
+
+/**
+ * Passed to {@link OSCStateListener}
+ */
+export interface OSCStateChange {
+    /**
+     * The address of the message
+     */
+    addr: string;
+    /**
+     * The address segments matched by wildcard segments of the pattern
+     */
+    params: string[];
+    /**
+     * Whether the value was received or sent
+     */
+    direction: OSCPacketDirection;
+}
+
+/**
+ * Listener registered with {@link OSCStateMirror.subscribe}
+ */
+export type OSCStateListener<Args = OSCArgs> = (
+    args: Args,
+    change: OSCStateChange,
+) => void;
+
+export interface OSCStateMirrorOptions {
+    /**
+     * Address patterns whose last value is sent to every new session (default: none)
+     */
+    replay?: string[];
+}
+
+interface OSCStateEntry {
+    args: OSCArgs;
+    /**
+     * The encoded message, replayed as is (keeps the original type tags)
+     */
+    packet: Uint8Array;
+}
+
+/**
+ * Keeps the last value of every address, both received and sent. Pass it as `mirror` option to the sessions,
+ * the mirror itself should live as long as the `TCPAdapter` (it outlives the sessions).
+ *
+ * ```ts
+ * const mirror = new OSCStateMirror({ replay: ["/ch/*\/mix/fader"] });
+ * const session = new MySession(send, { mirror });
+ *
+ * mirror.get("/ch/01/mix/fader"); // OSCArgs | undefined
+ * mirror.subscribe("/ch/*\/mix/fader", (args, { params: [ch] }) => {});
+ * ```
+ */
+export class OSCStateMirror {
+    constructor(options: OSCStateMirrorOptions = {}) {
+        this.#replay = (options.replay ?? []).map(($) =>
+            new OSCAddressPattern($)
+        );
+    }
+    readonly #replay: OSCAddressPattern[];
+    readonly #state = new Map<string, OSCStateEntry>();
+    readonly #listeners: {
+        pattern: OSCAddressPattern;
+        listener: OSCStateListener;
+    }[] = [];
+
+    /**
+     * Number of known addresses
+     */
+    get size(): number {
+        return this.#state.size;
+    }
+
+    /**
+     * Returns the last value of the address
+     */
+    get(addr: string): OSCArgs | undefined;
+    /**
+     * Returns the last value of the schema address, validated by {@link OSCMessageSchema.match}
+     * (throws {@link OSCProtocolError} if it does not match the schema)
+     */
+    get<Types extends readonly OSCSchemaType[]>(
+        schema: OSCMessageSchema<Types>,
+    ): OSCSchemaArgs<Types> | undefined;
+    get<Types extends readonly OSCSchemaType[]>(
+        key: string | OSCMessageSchema<Types>,
+    ): OSCArgs | OSCSchemaArgs<Types> | undefined {
+        if (typeof key === "string") {
+            return this.#state.get(key)?.args;
+        }
+        const entry = this.#state.get(key.addr);
+        return entry && key.match(key.addr, entry.args)!;
+    }
+
+    /**
+     * Known addresses and their last values (in order of first appearance)
+     */
+    *entries(): Generator<[addr: string, args: OSCArgs]> {
+        for (const [addr, { args }] of this.#state) {
+            yield [addr, args];
+        }
+    }
+
+    /**
+     * Registers a listener that is called whenever the value of a matching address changes. Returns a function to remove it again.
+     */
+    subscribe(pattern: string, listener: OSCStateListener): () => void;
+    /**
+     * Registers a listener on the schema address, the values are validated by {@link OSCMessageSchema.match}
+     * (values not matching the schema are not passed to the listener)
+     */
+    subscribe<Types extends readonly OSCSchemaType[]>(
+        schema: OSCMessageSchema<Types>,
+        listener: OSCStateListener<OSCSchemaArgs<Types>>,
+    ): () => void;
+    subscribe<Types extends readonly OSCSchemaType[]>(
+        key: string | OSCMessageSchema<Types>,
+        listener:
+            | OSCStateListener
+            | OSCStateListener<OSCSchemaArgs<Types>>,
+    ): () => void {
+        const entry = typeof key === "string"
+            ? {
+                pattern: new OSCAddressPattern(key),
+                listener: listener as OSCStateListener,
+            }
+            : {
+                pattern: new OSCAddressPattern(key.addr),
+                listener: ((args, change) => {
+                    let typed;
+                    try {
+                        typed = key.match(change.addr, args);
+                    } catch {
+                        // values not matching the schema are skipped
+                        return;
+                    }
+                    if (typed) {
+                        (listener as OSCStateListener<OSCSchemaArgs<Types>>)(
+                            typed,
+                            change,
+                        );
+                    }
+                }) as OSCStateListener,
+            };
+        this.#listeners.push(entry);
+        return () => {
+            const index = this.#listeners.indexOf(entry);
+            if (index !== -1) {
+                this.#listeners.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Updates the state from a message or bundle. Listeners are only called if the message differs from the last one.
+     * Might throw {@link OSCProtocolError} if the packet is invalid, exceptions thrown by listeners are passed on.
+     */
+    record(packet: Uint8Array, direction: OSCPacketDirection = "in"): void {
+        if (isOSCBundlePacket(packet)) {
+            for (const element of splitOSCBundle(packet).elements) {
+                this.record(element, direction);
+            }
+            return;
+        }
+        const [addr, args] = decodeOSC(packet);
+        const last = this.#state.get(addr);
+        if (last && equalBytes(last.packet, packet)) {
+            return;
+        }
+        // the packet might be a view into a reused buffer
+        this.#state.set(addr, { args, packet: packet.slice() });
+
+        // copy: listeners might unregister themselves
+        for (const { pattern, listener } of [...this.#listeners]) {
+            const params = pattern.match(addr);
+            if (params) {
+                listener(args, { addr, params, direction });
+            }
+        }
+    }
+
+    /**
+     * Sends the last value of every address matching the `replay` option. Called by the adapter when a session is created.
+     */
+    replay(target: { send_packet(packet: Uint8Array): unknown }): void {
+        if (this.#replay.length === 0) {
+            return;
+        }
+        // copy: sending records the values again
+        for (const [addr, { packet }] of [...this.#state]) {
+            if (this.#replay.some(($) => $.match(addr))) {
+                target.send_packet(packet);
+            }
+        }
+    }
+
+    /**
+     * Removes the value of an address (it is not replayed anymore)
+     */
+    delete(addr: string): boolean {
+        return this.#state.delete(addr);
+    }
+
+    /**
+     * Removes all values
+     */
+    clear(): void {
+        this.#state.clear();
+    }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) {
+            return false;
+        }
+    }
+    return true;
+}
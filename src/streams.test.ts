@@ -0,0 +1,142 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+    createOSCStreamChannel,
+    OSCDecoderStream,
+    OSCEncoderStream,
+} from "./streams.ts";
+import { encodeOSC, OSCProtocolError } from "./oscProtocol.ts";
+import { encodeOSCBundle, OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+import { encodeSizePrefixed } from "./framing.ts";
+import { encodeSLIP } from "@deno-plc/slip";
+
+async function collect<T>(stream: ReadableStream<T>): Promise<T[]> {
+    const items = [];
+    for await (const item of stream) {
+        items.push(item);
+    }
+    return items;
+}
+
+function chunks(...data: Uint8Array[]): ReadableStream<Uint8Array> {
+    return ReadableStream.from(data);
+}
+
+Deno.test("decoder stream", async () => {
+    const data = new Uint8Array([
+        ...encodeSLIP(encodeOSC("/a", [1])),
+        ...encodeSLIP(encodeOSCBundle({
+            timetag: OSC_TIMETAG_IMMEDIATELY,
+            elements: [{ addr: "/b", args: [] }, { addr: "/c", args: ["x"] }],
+        })),
+    ]);
+    assertEquals(
+        await collect(
+            chunks(data.subarray(0, 5), data.subarray(5))
+                .pipeThrough(new OSCDecoderStream()),
+        ),
+        [
+            { addr: "/a", args: [1] },
+            { addr: "/b", args: [] },
+            { addr: "/c", args: ["x"] },
+        ],
+    );
+
+    assertEquals(
+        await collect(
+            chunks(encodeSizePrefixed(encodeOSC("/a", [1])))
+                .pipeThrough(new OSCDecoderStream({ framing: "size-prefix" })),
+        ),
+        [{ addr: "/a", args: [1] }],
+    );
+});
+
+Deno.test("decoder stream errors", async () => {
+    const invalid = encodeSLIP(new Uint8Array([47, 0, 0, 0, 44, 105, 0, 0]));
+    const valid = encodeSLIP(encodeOSC("/a", [1]));
+
+    await assertRejects(
+        () =>
+            collect(
+                chunks(invalid, valid).pipeThrough(new OSCDecoderStream()),
+            ),
+        OSCProtocolError,
+    );
+
+    const errors: unknown[] = [];
+    assertEquals(
+        await collect(
+            chunks(
+                invalid,
+                encodeSLIP(encodeOSC("/big", ["x".repeat(64)])),
+                valid,
+            )
+                .pipeThrough(
+                    new OSCDecoderStream({
+                        max_packet_size: 32,
+                        on_error: (error) => errors.push(error),
+                    }),
+                ),
+        ),
+        [{ addr: "/a", args: [1] }],
+    );
+    assertEquals(errors.length, 2);
+});
+
+Deno.test("encoder stream", async () => {
+    const packet = encodeOSC("/raw", []);
+    assertEquals(
+        await collect(
+            ReadableStream.from([{ addr: "/a", args: [1] }, packet])
+                .pipeThrough(new OSCEncoderStream({ framing: "size-prefix" })),
+        ),
+        [encodeSizePrefixed(encodeOSC("/a", [1])), encodeSizePrefixed(packet)],
+    );
+});
+
+Deno.test("stream channel", async () => {
+    // loopback: everything written is read again
+    const pipe = new TransformStream<Uint8Array, Uint8Array>();
+    const channel = createOSCStreamChannel(pipe);
+    const writer = channel.writable.getWriter();
+    const reader = channel.readable.getReader();
+
+    await writer.write({ addr: "/a", args: [1] });
+    assertEquals((await reader.read()).value, { addr: "/a", args: [1] });
+
+    // backpressure: nothing is read, so the writer has to wait at some point
+    let written = 0;
+    while (written < 100) {
+        if (writer.desiredSize! <= 0) {
+            break;
+        }
+        writer.write({ addr: "/b", args: [written++] });
+    }
+    assertEquals(written < 100, true);
+
+    // nothing is lost
+    for (let i = 0; i < written; i++) {
+        assertEquals((await reader.read()).value, { addr: "/b", args: [i] });
+    }
+    await writer.close();
+    assertEquals((await reader.read()).done, true);
+});
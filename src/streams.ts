@@ -0,0 +1,180 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+    decodeOSCPacket,
+    encodeOSCPacket,
+    type OSCMessage,
+    type OSCPacket,
+    unpackOSCBundle,
+} from "./oscBundle.ts";
+import {
+    type OSCDecoderOptions,
+    type OSCEncoderOptions,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import {
+    createOSCFraming,
+    DEFAULT_MAX_PACKET_SIZE,
+    type OSCFramingType,
+} from "./framing.ts";
+
+export interface OSCDecoderStreamOptions extends OSCDecoderOptions {
+    /**
+     * default: `slip`
+     */
+    framing?: OSCFramingType;
+    /**
+     * Larger packets are treated as invalid (default: 65536)
+     */
+    max_packet_size?: number;
+    /**
+     * Called with invalid packets (or the received chunk for framing errors), which are skipped.
+     * By default the stream is errored.
+     */
+    on_error?: (error: unknown, packet: Uint8Array) => void;
+}
+
+export interface OSCEncoderStreamOptions extends OSCEncoderOptions {
+    /**
+     * default: `slip`
+     */
+    framing?: OSCFramingType;
+}
+
+/**
+ * Turns a byte stream (e.g. a serial port or `Deno.Conn`) into messages. Bundles are unpacked.
+ *
+ * ```ts
+ * for await (const { addr, args } of conn.readable.pipeThrough(new OSCDecoderStream())) {}
+ * ```
+ */
+export class OSCDecoderStream extends TransformStream<Uint8Array, OSCMessage> {
+    constructor(options: OSCDecoderStreamOptions = {}) {
+        const max_packet_size = options.max_packet_size ??
+            DEFAULT_MAX_PACKET_SIZE;
+        const on_error = options.on_error ?? ((error) => {
+            throw error;
+        });
+        const oversized: number[] = [];
+        const framing = createOSCFraming(
+            options.framing,
+            max_packet_size,
+            (size) => oversized.push(size),
+        );
+
+        super({
+            transform(chunk, controller) {
+                let packets: Uint8Array[];
+                try {
+                    packets = framing.decode(chunk);
+                } catch (e) {
+                    oversized.length = 0;
+                    on_error(e, chunk);
+                    return;
+                }
+                for (const size of oversized.splice(0)) {
+                    on_error(
+                        new OSCProtocolError({
+                            message:
+                                `packet size ${size} exceeds max_packet_size ${max_packet_size}`,
+                            packet: chunk,
+                        }),
+                        chunk,
+                    );
+                }
+                for (const packet of packets) {
+                    let decoded: OSCPacket;
+                    try {
+                        decoded = decodeOSCPacket(packet, options);
+                    } catch (e) {
+                        on_error(e, packet);
+                        continue;
+                    }
+                    for (const message of unpackOSCBundle(decoded)) {
+                        controller.enqueue(message);
+                    }
+                }
+            },
+        });
+    }
+}
+
+/**
+ * Turns messages, bundles or already encoded packets (e.g. from {@link compileOSCTemplate}) into a byte stream
+ *
+ * ```ts
+ * const encoder = new OSCEncoderStream();
+ * encoder.readable.pipeTo(conn.writable);
+ * const writer = encoder.writable.getWriter();
+ * await writer.write({ addr: "/foo", args: [1] });
+ * ```
+ */
+export class OSCEncoderStream
+    extends TransformStream<OSCPacket | Uint8Array, Uint8Array> {
+    constructor(options: OSCEncoderStreamOptions = {}) {
+        const framing = createOSCFraming(options.framing);
+        super({
+            transform(packet, controller) {
+                controller.enqueue(framing.encode(
+                    packet instanceof Uint8Array
+                        ? packet
+                        : encodeOSCPacket(packet, options),
+                ));
+            },
+        });
+    }
+}
+
+/**
+ * Messages received and packets to be sent over a byte stream, see {@link createOSCStreamChannel}
+ */
+export interface OSCStreamChannel {
+    readable: ReadableStream<OSCMessage>;
+    writable: WritableStream<OSCPacket | Uint8Array>;
+}
+
+/**
+ * Wraps a pair of byte streams (e.g. `Deno.Conn`, a serial port or the pipes of a child process) into an OSC channel.
+ * Backpressure is passed through in both directions.
+ *
+ * ```ts
+ * const conn = await Deno.connect({ hostname: "192.168.1.10", port: 3032 });
+ * const channel = createOSCStreamChannel(conn);
+ * const writer = channel.writable.getWriter();
+ * await writer.write({ addr: "/cue/go", args: [] });
+ * for await (const { addr, args } of channel.readable) {}
+ * ```
+ */
+export function createOSCStreamChannel(
+    stream: {
+        readable: ReadableStream<Uint8Array>;
+        writable: WritableStream<Uint8Array>;
+    },
+    options: OSCDecoderStreamOptions & OSCEncoderStreamOptions = {},
+): OSCStreamChannel {
+    const encoder = new OSCEncoderStream(options);
+    // errors of the underlying stream are reported to the writer of the channel
+    encoder.readable.pipeTo(stream.writable).catch(() => {});
+    return {
+        readable: stream.readable.pipeThrough(new OSCDecoderStream(options)),
+        writable: encoder.writable,
+    };
+}
@@ -0,0 +1,386 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { encodeSLIP } from "@deno-plc/slip";
+import {
+    defineMessage,
+    encodeOSC,
+    encodeOSCBundle,
+    millisToOSCTimetag,
+    osc,
+    OSC_TIMETAG_IMMEDIATELY,
+    type OSCArgs,
+    OSCProtocolError,
+    OSCStateMirror,
+    TCPOSCAdapter,
+} from "../mod.ts";
+import type { TCPOSCAdapterOptions } from "../mod.ts";
+import { encodeSizePrefixed } from "./framing.ts";
+import { OSCManualClock } from "./clock.ts";
+
+class TestAdapter extends TCPOSCAdapter {
+    constructor(options?: TCPOSCAdapterOptions) {
+        super((data) => this.sent.push(data), options);
+    }
+    readonly sent: Uint8Array[] = [];
+    readonly received: [addr: string, args: OSCArgs][] = [];
+    readonly errors: unknown[] = [];
+    destroyed = 0;
+    protected on_packet(addr: string, args: OSCArgs): void {
+        this.received.push([addr, args]);
+    }
+    protected override on_error(error: unknown): void {
+        this.errors.push(error);
+    }
+    protected on_destroy(): void {
+        this.destroyed++;
+    }
+}
+
+Deno.test("tcp adapter slip framing", () => {
+    const adapter = new TestAdapter();
+    adapter.send("/foo", [1]);
+    assertEquals(adapter.sent, [encodeSLIP(encodeOSC("/foo", [1]))]);
+
+    adapter.recv(encodeSLIP(encodeOSC("/bar", ["baz"])));
+    assertEquals(adapter.received, [["/bar", ["baz"]]]);
+});
+
+Deno.test("tcp adapter size-prefix framing", () => {
+    const adapter = new TestAdapter({ framing: "size-prefix" });
+    adapter.send("/foo", [1]);
+    assertEquals(adapter.sent, [encodeSizePrefixed(encodeOSC("/foo", [1]))]);
+
+    const frame = encodeSizePrefixed(encodeOSC("/bar", ["baz"]));
+    adapter.recv(frame.subarray(0, 6));
+    assertEquals(adapter.received, []);
+    adapter.recv(frame.subarray(6));
+    assertEquals(adapter.received, [["/bar", ["baz"]]]);
+});
+
+Deno.test("tcp adapter schema", () => {
+    const CueGo = defineMessage("/cue/go", ["s", "i"]);
+    const adapter = new TestAdapter();
+    adapter.send_packet(CueGo.encode("intro", 1));
+    assertEquals(adapter.sent, [encodeSLIP(CueGo.encode("intro", 1))]);
+
+    adapter.recv(adapter.sent[0]);
+    const [[addr, args]] = adapter.received;
+    assertEquals(CueGo.match(addr, args), ["intro", 1]);
+});
+
+Deno.test("tcp adapter query", async () => {
+    const adapter = new TestAdapter();
+    const first = adapter.query("/ch/01/mix/fader");
+    const second = adapter.query("/ch/01/mix/fader");
+    const on = adapter.query("/ch/01/mix/on", [], {
+        match: (addr, args) => addr === "/ch/01/mix/on" && args.length === 1,
+    });
+    assertEquals(adapter.sent.length, 3);
+
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/on", [])));
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/fader", [0.5])));
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/fader", [0.25])));
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/on", [1])));
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/fader", [0])));
+
+    assertEquals(await first, { addr: "/ch/01/mix/fader", args: [0.5] });
+    assertEquals(await second, { addr: "/ch/01/mix/fader", args: [0.25] });
+    assertEquals(await on, { addr: "/ch/01/mix/on", args: [1] });
+    // not consumed by a query
+    assertEquals(adapter.received, [
+        ["/ch/01/mix/on", []],
+        ["/ch/01/mix/fader", [0]],
+    ]);
+});
+
+Deno.test("tcp adapter query timeout", async () => {
+    const adapter = new TestAdapter();
+    await assertRejects(
+        () => adapter.query("/foo", [], { timeout: 10 }),
+        OSCProtocolError,
+        "query timed out after 10ms",
+    );
+    // a late reply is passed to on_packet
+    adapter.recv(encodeSLIP(encodeOSC("/foo", [1])));
+    assertEquals(adapter.received, [["/foo", [1]]]);
+});
+
+Deno.test("tcp adapter query destroy", async () => {
+    const adapter = new TestAdapter();
+    const pending = adapter.query("/foo");
+    adapter.destroy();
+    await assertRejects(() => pending, OSCProtocolError, "adapter destroyed");
+});
+
+Deno.test("tcp adapter send queue", () => {
+    const clock = new OSCManualClock();
+    const adapter = new TestAdapter({ send_queue: { clock, interval: 10 } });
+    adapter.send("/fader", [1]);
+    adapter.send("/fader", [2]);
+    assertEquals(adapter.sent, []);
+    clock.advance(0);
+    assertEquals(adapter.sent, [encodeSLIP(encodeOSC("/fader", [2]))]);
+
+    adapter.send("/fader", [3]);
+    adapter.destroy();
+    clock.advance(100);
+    assertEquals(adapter.sent.length, 1);
+});
+
+Deno.test("tcp adapter query bypasses send queue", async () => {
+    const clock = new OSCManualClock();
+    const adapter = new TestAdapter({ send_queue: { clock } });
+    const first = adapter.query("/ch/01/mix/fader");
+    const second = adapter.query("/ch/01/mix/fader");
+    // sent without waiting for a flush and not merged
+    assertEquals(adapter.sent, [
+        encodeSLIP(encodeOSC("/ch/01/mix/fader", [])),
+        encodeSLIP(encodeOSC("/ch/01/mix/fader", [])),
+    ]);
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/fader", [0.5])));
+    adapter.recv(encodeSLIP(encodeOSC("/ch/01/mix/fader", [0.25])));
+    assertEquals((await first).args, [0.5]);
+    assertEquals((await second).args, [0.25]);
+    adapter.destroy();
+});
+
+const invalid = new Uint8Array([47, 0, 0, 0, 44, 105, 0, 0]);
+
+Deno.test("tcp adapter error policy skip", () => {
+    const adapter = new TestAdapter();
+    adapter.recv(
+        new Uint8Array([
+            ...encodeSLIP(encodeOSC("/a", [1])),
+            ...encodeSLIP(invalid),
+            ...encodeSLIP(encodeOSC("/b", [2])),
+        ]),
+    );
+    assertEquals(adapter.received, [["/a", [1]], ["/b", [2]]]);
+    assertEquals(adapter.errors.length, 1);
+    assertEquals(adapter.errors[0] instanceof OSCProtocolError, true);
+    assertEquals(adapter.stats, { decoded: 2, dropped: 1, oversized: 0 });
+    assertEquals(adapter.destroyed, 0);
+});
+
+Deno.test("tcp adapter error policy close", () => {
+    const adapter = new TestAdapter({ error_policy: "close" });
+    adapter.recv(
+        new Uint8Array([
+            ...encodeSLIP(encodeOSC("/a", [1])),
+            ...encodeSLIP(invalid),
+            ...encodeSLIP(encodeOSC("/b", [2])),
+        ]),
+    );
+    adapter.recv(encodeSLIP(encodeOSC("/c", [3])));
+    assertEquals(adapter.received, [["/a", [1]]]);
+    assertEquals(adapter.destroyed, 1);
+    // closing the connection afterwards calls destroy again
+    adapter.destroy();
+    assertEquals(adapter.destroyed, 1);
+    assertEquals(adapter.stats, { decoded: 1, dropped: 1, oversized: 0 });
+});
+
+Deno.test("tcp adapter error policy rethrow", () => {
+    const adapter = new TestAdapter({ error_policy: "rethrow" });
+    assertThrows(() => adapter.recv(encodeSLIP(invalid)), OSCProtocolError);
+    assertEquals(adapter.errors.length, 1);
+    adapter.recv(encodeSLIP(encodeOSC("/a", [1])));
+    assertEquals(adapter.received, [["/a", [1]]]);
+});
+
+Deno.test("tcp adapter oversized packets", () => {
+    const big = encodeOSC("/big", ["x".repeat(64)]);
+    const small = encodeOSC("/a", [1]);
+
+    const slip = new TestAdapter({ max_packet_size: 32 });
+    slip.recv(new Uint8Array([...encodeSLIP(big), ...encodeSLIP(small)]));
+    assertEquals(slip.received, [["/a", [1]]]);
+    assertEquals(slip.stats, { decoded: 1, dropped: 0, oversized: 1 });
+
+    const prefixed = new TestAdapter({
+        framing: "size-prefix",
+        max_packet_size: 32,
+    });
+    const stream = new Uint8Array([
+        ...encodeSizePrefixed(big),
+        ...encodeSizePrefixed(small),
+    ]);
+    prefixed.recv(stream.subarray(0, 20));
+    prefixed.recv(stream.subarray(20));
+    assertEquals(prefixed.received, [["/a", [1]]]);
+    assertEquals(prefixed.stats, { decoded: 1, dropped: 0, oversized: 1 });
+    assertEquals(prefixed.errors.length, 1);
+});
+
+Deno.test("tcp adapter state mirror", async () => {
+    const mirror = new OSCStateMirror({ replay: ["/fader"] });
+    const first = new TestAdapter({ mirror });
+    first.recv(encodeSLIP(encodeOSC("/fader", [0.5])));
+    first.send("/name", ["kick"]);
+    assertEquals(mirror.get("/fader"), [0.5]);
+    assertEquals(mirror.get("/name"), ["kick"]);
+    first.destroy();
+
+    // reconnect: the new session restores the fader
+    const second = new TestAdapter({ mirror });
+    await Promise.resolve();
+    assertEquals(second.sent, [encodeSLIP(encodeOSC("/fader", [0.5]))]);
+});
+
+Deno.test("tcp adapter schedule bundles", () => {
+    const clock = new OSCManualClock(1000);
+    const adapter = new TestAdapter({ schedule: { clock } });
+    adapter.recv(encodeSLIP(encodeOSCBundle({
+        timetag: millisToOSCTimetag(1100),
+        elements: [
+            { addr: "/a", args: [] },
+            {
+                timetag: millisToOSCTimetag(1200),
+                elements: [{ addr: "/c", args: [] }],
+            },
+            // nested bundles without timetag inherit the timetag of the parent
+            {
+                timetag: OSC_TIMETAG_IMMEDIATELY,
+                elements: [{ addr: "/b", args: [] }],
+            },
+        ],
+    })));
+    adapter.recv(encodeSLIP(encodeOSC("/now", [])));
+    assertEquals(adapter.received, [["/now", []]]);
+    clock.advance(100);
+    assertEquals(adapter.received, [["/now", []], ["/a", []], ["/b", []]]);
+    clock.advance(100);
+    assertEquals(adapter.received.map(([addr]) => addr), [
+        "/now",
+        "/a",
+        "/b",
+        "/c",
+    ]);
+
+    adapter.recv(encodeSLIP(encodeOSCBundle({
+        timetag: millisToOSCTimetag(1300),
+        elements: [{ addr: "/d", args: [] }],
+    })));
+    adapter.destroy();
+    clock.advance(100);
+    assertEquals(adapter.received.length, 4);
+});
+
+Deno.test("tcp adapter schedule and state mirror", () => {
+    const clock = new OSCManualClock(1000);
+    const mirror = new OSCStateMirror();
+    const adapter = new TestAdapter({ schedule: { clock }, mirror });
+    adapter.recv(encodeSLIP(encodeOSCBundle({
+        timetag: millisToOSCTimetag(1100),
+        elements: [
+            { addr: "/fader", args: [osc.float(1)] },
+            {
+                timetag: millisToOSCTimetag(1200),
+                elements: [{ addr: "/mute", args: [true] }],
+            },
+        ],
+    })));
+    // recorded when the values take effect
+    assertEquals(mirror.get("/fader"), undefined);
+    clock.advance(100);
+    assertEquals(mirror.get("/fader"), [1]);
+    assertEquals(mirror.get("/mute"), undefined);
+    clock.advance(100);
+    assertEquals(mirror.get("/mute"), [true]);
+    assertEquals(adapter.received.map(([addr]) => addr), ["/fader", "/mute"]);
+    adapter.destroy();
+});
+
+Deno.test("tcp adapter heartbeat", () => {
+    const clock = new OSCManualClock();
+    const adapter = new TestAdapter({
+        heartbeat: { interval: 100, timeout: 200, clock },
+    });
+    clock.advance(100);
+    assertEquals(adapter.sent, [encodeSLIP(encodeOSC("/ping", []))]);
+    // the reply is not passed to on_packet
+    adapter.recv(encodeSLIP(encodeOSC("/ping", [])));
+    adapter.recv(encodeSLIP(encodeOSC("/a", [])));
+    assertEquals(adapter.received, [["/a", []]]);
+    clock.advance(200);
+    assertEquals(adapter.heartbeat?.state, "stale");
+
+    adapter.destroy();
+    assertEquals(clock.pending, 0);
+});
+
+Deno.test("tcp adapter state mirror listener errors", () => {
+    const mirror = new OSCStateMirror();
+    const fader: number[] = [];
+    mirror.subscribe(defineMessage("/fader", ["f"]), ([value]) => {
+        fader.push(value);
+    });
+    mirror.subscribe("/fail", () => {
+        throw new Error("listener");
+    });
+    const adapter = new TestAdapter({ mirror });
+    adapter.recv(
+        new Uint8Array([
+            ...encodeSLIP(encodeOSC("/fader", ["oops"])),
+            ...encodeSLIP(encodeOSC("/fail", [])),
+            ...encodeSLIP(encodeOSC("/next", [])),
+        ]),
+    );
+    assertEquals(fader, []);
+    assertEquals(adapter.received.map(([addr]) => addr), [
+        "/fader",
+        "/fail",
+        "/next",
+    ]);
+    assertEquals(adapter.errors.length, 1);
+});
+
+Deno.test("tcp adapter destroy cleans up", async () => {
+    const clock = new OSCManualClock();
+    const adapter = new TestAdapter({
+        send_queue: { clock },
+        heartbeat: { clock },
+    });
+    adapter.send("/queued", []);
+    const pending = adapter.query("/q", [], { timeout: 100000 });
+    adapter.destroy();
+    await assertRejects(() => pending, OSCProtocolError, "adapter destroyed");
+    assertEquals(clock.pending, 0);
+    // the queued message is dropped
+    assertEquals(adapter.sent, [encodeSLIP(encodeOSC("/q", []))]);
+
+    // once only
+    adapter.destroy();
+    assertEquals(adapter.destroyed, 1);
+
+    await assertRejects(
+        () => adapter.query("/q"),
+        OSCProtocolError,
+        "adapter destroyed",
+    );
+    assertThrows(() => adapter.send("/late"), Error, "adapter destroyed");
+    assertThrows(
+        () => adapter.send_packet(encodeOSC("/late", [])),
+        Error,
+        "adapter destroyed",
+    );
+});
@@ -0,0 +1,64 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import {
+    dateToOSCTimetag,
+    isOSCTimetagImmediate,
+    millisToOSCTimetag,
+    oscTimetagToDate,
+    oscTimetagToMillis,
+    oscTimetagToPerformance,
+    performanceToOSCTimetag,
+} from "./timetag.ts";
+import { OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+
+Deno.test("timetag conversion", () => {
+    assertEquals(millisToOSCTimetag(0), 0x83aa7e80_00000000n);
+    assertEquals(millisToOSCTimetag(500), 0x83aa7e80_80000000n);
+    assertEquals(oscTimetagToMillis(0x83aa7e80_40000000n), 250);
+    assertEquals(
+        dateToOSCTimetag(new Date("2000-01-01T00:00:00Z")),
+        0xbc17c200_00000000n,
+    );
+    assertEquals(
+        oscTimetagToDate(0xbc17c200_00000000n).toISOString(),
+        "2000-01-01T00:00:00.000Z",
+    );
+
+    // NTP era 1 (after 2036-02-07)
+    const date = new Date("2040-01-01T00:00:00Z");
+    const timetag = dateToOSCTimetag(date);
+    assertEquals(timetag >> 63n, 0n);
+    assertEquals(oscTimetagToDate(timetag).getTime(), date.getTime());
+
+    const now = Date.now() + 0.25;
+    assertAlmostEquals(oscTimetagToMillis(millisToOSCTimetag(now)), now, 1e-6);
+
+    const perf = performance.now();
+    assertAlmostEquals(
+        oscTimetagToPerformance(performanceToOSCTimetag(perf)),
+        perf,
+        1e-3,
+    );
+
+    assertEquals(isOSCTimetagImmediate(OSC_TIMETAG_IMMEDIATELY), true);
+    assertEquals(isOSCTimetagImmediate(millisToOSCTimetag(0)), false);
+});
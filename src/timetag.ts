@@ -0,0 +1,99 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { OSC_TIMETAG_IMMEDIATELY, type OSCTimetag } from "./oscBundle.ts";
+
+/**
+ * Seconds between the NTP epoch (1900-01-01) and the Unix epoch (1970-01-01)
+ */
+const NTP_UNIX_OFFSET = 2208988800;
+
+const FRACTION = 2 ** 32;
+
+/**
+ * Checks for the special timetag value "immediately" ({@link OSC_TIMETAG_IMMEDIATELY})
+ */
+export function isOSCTimetagImmediate(timetag: OSCTimetag): boolean {
+    return timetag === OSC_TIMETAG_IMMEDIATELY;
+}
+
+/**
+ * Converts milliseconds since the Unix epoch (e.g. `Date.now()` or {@link OSCClock.now}) to a timetag
+ */
+export function millisToOSCTimetag(ms: number): OSCTimetag {
+    if (!Number.isFinite(ms)) {
+        throw new Error(`millisToOSCTimetag: invalid time ${ms}`);
+    }
+    let seconds = Math.floor(ms / 1000);
+    let fraction = Math.round((ms / 1000 - seconds) * FRACTION);
+    if (fraction === FRACTION) {
+        seconds++;
+        fraction = 0;
+    }
+    // the seconds wrap around in 2036 (NTP era 1)
+    return BigInt.asUintN(
+        64,
+        (BigInt(seconds + NTP_UNIX_OFFSET) << 32n) | BigInt(fraction),
+    );
+}
+
+/**
+ * Converts a timetag to milliseconds since the Unix epoch. Timetags with the most significant bit cleared are
+ * interpreted as NTP era 1 (2036 - 2104, RFC 4330). "immediately" is not handled specially, see {@link isOSCTimetagImmediate}.
+ */
+export function oscTimetagToMillis(timetag: OSCTimetag): number {
+    let seconds = Number(BigInt.asUintN(64, timetag) >> 32n);
+    if (seconds < 2 ** 31) {
+        seconds += 2 ** 32;
+    }
+    // rounded to nanoseconds, so that milliseconds survive the round trip through millisToOSCTimetag
+    const fraction = Math.round(Number(timetag & 0xffffffffn) / FRACTION * 1e9);
+    return (seconds - NTP_UNIX_OFFSET) * 1000 + fraction / 1e6;
+}
+
+/**
+ * Converts a `Date` to a timetag
+ */
+export function dateToOSCTimetag(date: Date): OSCTimetag {
+    return millisToOSCTimetag(date.getTime());
+}
+
+/**
+ * Converts a timetag to a `Date`
+ */
+export function oscTimetagToDate(timetag: OSCTimetag): Date {
+    return new Date(oscTimetagToMillis(timetag));
+}
+
+/**
+ * Converts a `performance.now()` timestamp to a timetag
+ */
+export function performanceToOSCTimetag(
+    now: number = performance.now(),
+): OSCTimetag {
+    return millisToOSCTimetag(performance.timeOrigin + now);
+}
+
+/**
+ * Converts a timetag to a `performance.now()` timestamp (negative if it is before the start of the process)
+ */
+export function oscTimetagToPerformance(timetag: OSCTimetag): number {
+    return oscTimetagToMillis(timetag) - performance.timeOrigin;
+}
@@ -0,0 +1,152 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals } from "@std/assert";
+import type { OSCArgs } from "./oscProtocol.ts";
+import { UDPOSCAdapter } from "./udpAdapter.ts";
+import { encodeOSCBundle, OSC_TIMETAG_IMMEDIATELY } from "./oscBundle.ts";
+
+class TestAdapter extends UDPOSCAdapter {
+    readonly received: [addr: string, args: OSCArgs, port: number][] = [];
+    readonly errors: unknown[] = [];
+    #waiting: (() => void) | null = null;
+
+    protected on_packet(
+        addr: string,
+        args: OSCArgs,
+        source: Deno.NetAddr,
+    ): void {
+        this.received.push([addr, args, source.port]);
+        this.#waiting?.();
+    }
+
+    protected override on_error(error: unknown): void {
+        this.errors.push(error);
+        this.#waiting?.();
+    }
+
+    /**
+     * resolves as soon as `count` packets (or errors) have been received
+     */
+    async wait(count: number) {
+        while (this.received.length + this.errors.length < count) {
+            await new Promise<void>((resolve) => this.#waiting = resolve);
+        }
+    }
+}
+
+Deno.test("udp loopback", async () => {
+    const server = new TestAdapter({ hostname: "127.0.0.1" });
+    const client = new TestAdapter({
+        hostname: "127.0.0.1",
+        remote: { hostname: "127.0.0.1", port: server.local_addr.port },
+    });
+
+    try {
+        await client.send("/foo/bar", [5, true]);
+        await server.wait(1);
+        assertEquals(server.received, [
+            ["/foo/bar", [5, true], client.local_addr.port],
+        ]);
+
+        // reply to the sender of the last packet
+        await server.send("/foo/reply", ["baz"]);
+        await client.wait(1);
+        assertEquals(client.received, [
+            ["/foo/reply", ["baz"], server.local_addr.port],
+        ]);
+
+        // multibyte characters
+        await server.send_to(client.local_addr, "/name", ["Müller"]);
+        await client.wait(2);
+        assertEquals(client.received[1], [
+            "/name",
+            ["Müller"],
+            server.local_addr.port,
+        ]);
+    } finally {
+        client.destroy();
+        server.destroy();
+    }
+});
+
+Deno.test("udp bundle and invalid packet", async () => {
+    const server = new TestAdapter({ hostname: "127.0.0.1" });
+    const socket = Deno.listenDatagram({
+        transport: "udp",
+        hostname: "127.0.0.1",
+        port: 0,
+    });
+    const target = {
+        transport: "udp",
+        hostname: "127.0.0.1",
+        port: server.local_addr.port,
+    } as const;
+
+    try {
+        await socket.send(new Uint8Array([1, 2, 3]), target);
+        await socket.send(
+            encodeOSCBundle({
+                timetag: OSC_TIMETAG_IMMEDIATELY,
+                elements: [
+                    { addr: "/a", args: [] },
+                    { addr: "/b", args: [1] },
+                ],
+            }),
+            target,
+        );
+        await server.wait(3);
+        assertEquals(server.errors.length, 1);
+        assertEquals(server.received.map(([addr]) => addr), ["/a", "/b"]);
+    } finally {
+        socket.close();
+        server.destroy();
+    }
+});
+
+Deno.test("udp handler errors", async () => {
+    class ThrowingAdapter extends TestAdapter {
+        protected override on_packet(
+            addr: string,
+            args: OSCArgs,
+            source: Deno.NetAddr,
+        ): void {
+            if (addr === "/throw") {
+                throw new Error("handler");
+            }
+            super.on_packet(addr, args, source);
+        }
+    }
+    const server = new ThrowingAdapter({ hostname: "127.0.0.1" });
+    const client = new TestAdapter({
+        hostname: "127.0.0.1",
+        remote: { hostname: "127.0.0.1", port: server.local_addr.port },
+    });
+    try {
+        await client.send("/throw");
+        await client.send("/next");
+        await server.wait(2);
+        assertEquals(server.errors.length, 1);
+        assertEquals(server.received.map(([addr]) => addr), ["/next"]);
+    } finally {
+        client.destroy();
+        server.destroy();
+    }
+});
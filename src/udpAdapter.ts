@@ -0,0 +1,198 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { decodeOSCPacket, unpackOSCBundle } from "./oscBundle.ts";
+import {
+    encodeOSC_UTF8,
+    type OSCArgs,
+    type OSCEncodableArgs,
+} from "./oscProtocol.ts";
+import type { OSCPacketTap } from "./recording.ts";
+
+/**
+ * Host/port pair of a UDP peer
+ */
+export interface UDPOSCPeer {
+    hostname: string;
+    port: number;
+}
+
+export interface UDPOSCAdapterOptions {
+    /**
+     * Local address to bind to (default: `0.0.0.0`)
+     */
+    hostname?: string;
+    /**
+     * Local port to bind to (default: `0`, a random port is assigned)
+     */
+    port?: number;
+    /**
+     * Fixed peer `send` sends to. If omitted, `send` replies to the sender of the last received packet.
+     */
+    remote?: UDPOSCPeer;
+    /**
+     * Called with every packet received or sent, e.g. {@link OSCRecorder.tap}
+     */
+    tap?: OSCPacketTap;
+}
+
+/**
+ * OSC-over-UDP, one OSC packet per datagram. Requires `--unstable-net`
+ */
+export abstract class UDPOSCAdapter {
+    constructor(options: UDPOSCAdapterOptions = {}) {
+        this.#socket = Deno.listenDatagram({
+            transport: "udp",
+            hostname: options.hostname ?? "0.0.0.0",
+            port: options.port ?? 0,
+        });
+        this.#remote = options.remote ?? null;
+        this.#tap = options.tap ?? null;
+        this.#recv_loop();
+    }
+    readonly #socket: Deno.DatagramConn;
+    readonly #remote: UDPOSCPeer | null;
+    readonly #tap: OSCPacketTap | null;
+    #last_source: Deno.NetAddr | null = null;
+    #destroyed = false;
+
+    /**
+     * The local address the socket is bound to
+     */
+    get local_addr(): Deno.NetAddr {
+        return this.#socket.addr as Deno.NetAddr;
+    }
+
+    async #recv_loop() {
+        while (true) {
+            let data, source;
+            try {
+                [data, source] = await this.#socket.receive();
+            } catch (e) {
+                // closing the socket interrupts the pending receive
+                if (!this.#destroyed) {
+                    this.destroy();
+                    this.on_close(e);
+                }
+                return;
+            }
+            this.#last_source = source as Deno.NetAddr;
+            try {
+                this.recv(data, source as Deno.NetAddr);
+            } catch (e) {
+                // thrown by `on_packet`, the following datagrams are received anyway
+                this.on_error(e, data, source as Deno.NetAddr);
+            }
+        }
+    }
+
+    /**
+     * Handles one received datagram. Bundles are unpacked, their messages are passed on one by one.
+     */
+    protected recv(data: Uint8Array, source: Deno.NetAddr): void {
+        this.#tap?.(data, "in");
+        let decoded;
+        try {
+            decoded = decodeOSCPacket(data);
+        } catch (e) {
+            this.on_error(e, data, source);
+            return;
+        }
+        for (const { addr, args } of unpackOSCBundle(decoded)) {
+            this.on_packet(addr, args, source);
+        }
+    }
+
+    protected abstract on_packet(
+        addr: string,
+        args: OSCArgs,
+        source: Deno.NetAddr,
+    ): void;
+
+    /**
+     * Called if a received datagram is not a valid OSC packet or `on_packet` threw. The datagram is dropped, override to log it.
+     */
+    protected on_error(
+        _error: unknown,
+        _packet: Uint8Array,
+        _source: Deno.NetAddr,
+    ): void {}
+
+    /**
+     * Called if the socket failed (it is closed then). Not called after {@link UDPOSCAdapter.destroy}.
+     */
+    protected on_close(_error: unknown): void {}
+
+    /**
+     * Sends a message to the configured remote peer or (if none is configured) to the sender of the last received packet
+     */
+    async send(addr: string, args: OSCEncodableArgs = []): Promise<void> {
+        await this.send_packet(encodeOSC_UTF8(addr, args));
+    }
+
+    /**
+     * Sends an already encoded packet to the configured remote peer or (if none is configured) to the sender of the last received packet
+     */
+    async send_packet(packet: Uint8Array): Promise<void> {
+        const remote = this.#remote ?? this.#last_source;
+        if (!remote) {
+            throw new Error(
+                `UDPOSCAdapter: no remote configured and nothing received yet`,
+            );
+        }
+        await this.send_packet_to(remote, packet);
+    }
+
+    /**
+     * Sends a message to the given peer, e.g. to reply to the `source` passed to `on_packet`
+     */
+    async send_to(
+        remote: UDPOSCPeer,
+        addr: string,
+        args: OSCEncodableArgs = [],
+    ): Promise<void> {
+        await this.send_packet_to(remote, encodeOSC_UTF8(addr, args));
+    }
+
+    /**
+     * Sends an already encoded packet to the given peer
+     */
+    async send_packet_to(
+        remote: UDPOSCPeer,
+        packet: Uint8Array,
+    ): Promise<void> {
+        this.#tap?.(packet, "out");
+        await this.#socket.send(packet, {
+            transport: "udp",
+            hostname: remote.hostname,
+            port: remote.port,
+        });
+    }
+
+    /**
+     * Closes the socket
+     */
+    destroy(): void {
+        if (!this.#destroyed) {
+            this.#destroyed = true;
+            this.#socket.close();
+        }
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { WebSocketOSCAdapter } from "./wsAdapter.ts";
+import type { WebSocketOSCAdapterOptions } from "./wsAdapter.ts";
+import { encodeOSC, type OSCArgs, OSCProtocolError } from "./oscProtocol.ts";
+
+class TestAdapter extends WebSocketOSCAdapter {
+    constructor(
+        socket: WebSocket | string,
+        options?: WebSocketOSCAdapterOptions,
+    ) {
+        super(socket, options);
+        this.closed = new Promise((resolve) => this.#on_close = resolve);
+    }
+    readonly received: [addr: string, args: OSCArgs][] = [];
+    readonly errors: unknown[] = [];
+    readonly closed: Promise<number>;
+    #on_close: (code: number) => void = () => {};
+    #waiting: (() => void) | null = null;
+
+    protected on_packet(addr: string, args: OSCArgs): void {
+        this.received.push([addr, args]);
+        this.#waiting?.();
+    }
+    protected override on_error(error: unknown): void {
+        this.errors.push(error);
+        this.#waiting?.();
+    }
+    protected override on_close(code: number): void {
+        this.#on_close(code);
+    }
+
+    /**
+     * Resolves once `count` messages (or errors) have been received
+     */
+    wait(count: number): Promise<void> {
+        return new Promise((resolve) => {
+            this.#waiting = () => {
+                if (this.received.length + this.errors.length >= count) {
+                    resolve();
+                }
+            };
+            this.#waiting();
+        });
+    }
+}
+
+function serve(options?: WebSocketOSCAdapterOptions) {
+    const sessions: TestAdapter[] = [];
+    const server = Deno.serve({
+        hostname: "127.0.0.1",
+        port: 0,
+        onListen() {},
+    }, (request) => {
+        const { socket, response } = Deno.upgradeWebSocket(request);
+        sessions.push(new TestAdapter(socket, options));
+        return response;
+    });
+    return {
+        url: `ws://127.0.0.1:${server.addr.port}`,
+        sessions,
+        [Symbol.asyncDispose]: () => server.shutdown(),
+    };
+}
+
+Deno.test("websocket adapter", async () => {
+    await using server = serve();
+    const client = new TestAdapter(server.url);
+    // queued until the socket is open
+    client.send("/hello", [1]);
+
+    await waitFor(() => server.sessions.length === 1);
+    const session = server.sessions[0];
+    await session.wait(1);
+    assertEquals(session.received, [["/hello", [1]]]);
+
+    session.send("/reply", ["x"]);
+    await client.wait(1);
+    assertEquals(client.received, [["/reply", ["x"]]]);
+
+    client.destroy();
+    assertEquals(await session.closed, 1005);
+    assertEquals(await client.closed, 1005);
+    assertThrows(() => client.send("/late"), Error, "closed");
+});
+
+async function sendText(url: string, ...frames: (string | Uint8Array)[]) {
+    const socket = new WebSocket(url);
+    await new Promise((resolve) => socket.onopen = resolve);
+    for (const frame of frames) {
+        socket.send(frame);
+    }
+    return socket;
+}
+
+Deno.test("websocket adapter text frames", async () => {
+    await using server = serve({ text_frames: "parse" });
+    const socket = await sendText(
+        server.url,
+        "/cue/go ,i 1",
+        "invalid",
+        encodeOSC("/bin", []),
+        `/name ,s "Müller"`,
+    );
+    await waitFor(() => server.sessions.length === 1);
+    const session = server.sessions[0];
+    await session.wait(4);
+    assertEquals(session.received, [
+        ["/cue/go", [1]],
+        ["/bin", []],
+        ["/name", ["Müller"]],
+    ]);
+    assertEquals(session.errors.length, 1);
+    socket.close();
+    await session.closed;
+
+    await using rejecting = serve();
+    const socket2 = await sendText(rejecting.url, "/cue/go ,i 1");
+    await waitFor(() => rejecting.sessions.length === 1);
+    await rejecting.sessions[0].wait(1);
+    assertEquals(rejecting.sessions[0].received, []);
+    assertEquals(
+        rejecting.sessions[0].errors[0] instanceof OSCProtocolError,
+        true,
+    );
+    socket2.close();
+    await rejecting.sessions[0].closed;
+});
+
+Deno.test("websocket adapter handler errors", async () => {
+    class ThrowingAdapter extends TestAdapter {
+        protected override on_packet(addr: string, args: OSCArgs): void {
+            if (addr === "/throw") {
+                throw new Error("handler");
+            }
+            super.on_packet(addr, args);
+        }
+    }
+    await using server = serve();
+    const client = new ThrowingAdapter(server.url);
+    await waitFor(() => server.sessions.length === 1);
+    const session = server.sessions[0];
+    session.send("/throw");
+    session.send("/näxt");
+    await client.wait(2);
+    assertEquals(client.received, [["/näxt", []]]);
+    assertEquals((client.errors[0] as Error).message, "handler");
+
+    client.destroy();
+    await session.closed;
+});
+
+async function waitFor(condition: () => boolean) {
+    while (!condition()) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * @license GPL-3.0-or-later
+ *
+ * @Deno-PLC / Adapter-OSC
+ *
+ * Copyright (C) 2025 Hans Schallmoser
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { decodeOSCPacket, unpackOSCBundle } from "./oscBundle.ts";
+import {
+    encodeOSC_UTF8,
+    type OSCArgs,
+    type OSCEncodableArgs,
+    OSCProtocolError,
+} from "./oscProtocol.ts";
+import { parseOSCText } from "./oscText.ts";
+import type { OSCPacketTap } from "./recording.ts";
+
+export interface WebSocketOSCAdapterOptions {
+    /**
+     * How to handle text frames:
+     * - `reject` (default): passed to `on_error` and dropped
+     * - `parse`: parsed as text format (see {@link parseOSCText}), e.g. `/cue/go ,i 1`
+     */
+    text_frames?: "reject" | "parse";
+    /**
+     * Called with every packet received or sent, e.g. {@link OSCRecorder.tap}
+     */
+    tap?: OSCPacketTap;
+}
+
+/**
+ * OSC over WebSocket, one OSC packet per binary frame. Pass a socket from `Deno.upgradeWebSocket` (server)
+ * or a URL (client).
+ *
+ * ```ts
+ * class ControlSurface extends WebSocketOSCAdapter {
+ *     protected on_packet(addr: string, args: OSCArgs) {}
+ * }
+ *
+ * Deno.serve((request) => {
+ *     const { socket, response } = Deno.upgradeWebSocket(request);
+ *     new ControlSurface(socket);
+ *     return response;
+ * });
+ *
+ * const client = new ControlSurface("ws://127.0.0.1:8000");
+ * client.send("/cue/go", [1]);
+ * ```
+ */
+export abstract class WebSocketOSCAdapter {
+    constructor(
+        socket: WebSocket | string | URL,
+        options: WebSocketOSCAdapterOptions = {},
+    ) {
+        this.socket = socket instanceof WebSocket
+            ? socket
+            : new WebSocket(socket);
+        this.socket.binaryType = "arraybuffer";
+        this.#text_frames = options.text_frames ?? "reject";
+        this.#tap = options.tap ?? null;
+
+        this.socket.addEventListener("open", () => {
+            for (const packet of this.#connecting.splice(0)) {
+                this.socket.send(packet);
+            }
+        });
+        this.socket.addEventListener("message", (event) => {
+            const data = typeof event.data === "string"
+                ? null
+                : new Uint8Array(event.data);
+            try {
+                if (data) {
+                    this.recv(data);
+                } else {
+                    this.#recv_text(event.data);
+                }
+            } catch (e) {
+                // thrown by on_packet
+                this.on_error(e, data ?? new TextEncoder().encode(event.data));
+            }
+        });
+        // an error event is always followed by a close event
+        this.socket.addEventListener("close", (event) => {
+            this.#connecting = [];
+            this.on_close(event.code, event.reason);
+        });
+    }
+    /**
+     * The underlying socket
+     */
+    readonly socket: WebSocket;
+    readonly #text_frames: "reject" | "parse";
+    readonly #tap: OSCPacketTap | null;
+    /**
+     * Packets sent before the socket was open
+     */
+    #connecting: Uint8Array[] = [];
+
+    /**
+     * Handles one received binary frame. Bundles are unpacked, their messages are passed on one by one.
+     */
+    protected recv(data: Uint8Array): void {
+        this.#tap?.(data, "in");
+        let decoded;
+        try {
+            decoded = decodeOSCPacket(data);
+        } catch (e) {
+            this.on_error(e, data);
+            return;
+        }
+        for (const { addr, args } of unpackOSCBundle(decoded)) {
+            this.on_packet(addr, args);
+        }
+    }
+
+    #recv_text(text: string) {
+        if (this.#text_frames === "parse") {
+            let packet;
+            try {
+                const { addr, args } = parseOSCText(text);
+                packet = encodeOSC_UTF8(addr, args);
+            } catch (e) {
+                this.on_error(e, new TextEncoder().encode(text));
+                return;
+            }
+            this.recv(packet);
+        } else {
+            this.on_error(
+                new OSCProtocolError({ message: `unexpected text frame` }),
+                new TextEncoder().encode(text),
+            );
+        }
+    }
+
+    protected abstract on_packet(addr: string, args: OSCArgs): void;
+
+    /**
+     * Called if a received frame is not a valid OSC packet (or a text frame) or `on_packet` threw. The frame is dropped,
+     * override to log it.
+     */
+    protected on_error(_error: unknown, _packet: Uint8Array): void {}
+
+    /**
+     * Called once the socket is closed, by either side or because of an error (code 1006)
+     */
+    protected on_close(_code: number, _reason: string): void {}
+
+    send(addr: string, args: OSCEncodableArgs = []): void {
+        this.send_packet(encodeOSC_UTF8(addr, args));
+    }
+
+    /**
+     * Sends an already encoded packet. Packets sent while the (client) socket is connecting are sent once it is open.
+     */
+    send_packet(packet: Uint8Array): void {
+        switch (this.socket.readyState) {
+            case WebSocket.CONNECTING:
+                this.#tap?.(packet, "out");
+                this.#connecting.push(packet);
+                return;
+            case WebSocket.OPEN:
+                this.#tap?.(packet, "out");
+                this.socket.send(packet);
+                return;
+            default:
+                throw new Error(`WebSocketOSCAdapter: socket is closed`);
+        }
+    }
+
+    /**
+     * Closes the socket
+     */
+    destroy(code?: number, reason?: string): void {
+        this.#connecting = [];
+        this.socket.close(code, reason);
+    }
+}